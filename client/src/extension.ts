@@ -4,9 +4,114 @@
  * ------------------------------------------------------------------------------------------ */
 
 import * as path from 'path';
-import { workspace, ExtensionContext } from 'vscode';
+import {
+    commands,
+    workspace,
+    window,
+    ConfigurationTarget,
+    ExtensionContext,
+    QuickPickItem,
+    StatusBarAlignment,
+    Uri
+} from 'vscode';
 
-import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
+import {
+    ExecuteCommandRequest,
+    LanguageClient,
+    LanguageClientOptions,
+    NotificationType,
+    RequestType,
+    RequestType0,
+    ServerOptions,
+    TransportKind
+} from 'vscode-languageclient/node';
+
+interface KubernetesModeParams {
+    mode: 'online' | 'offline';
+    message?: string;
+}
+
+const KubernetesModeNotification = new NotificationType<KubernetesModeParams>(
+    'yamlKubernetesCompletion/kubernetesMode'
+);
+
+interface KubernetesContextInfo {
+    name: string;
+    cluster: string;
+    namespace?: string;
+}
+
+interface KubernetesContextsResult {
+    contexts: KubernetesContextInfo[];
+    currentContext: string;
+    pinnedContext: string;
+}
+
+const KubernetesContextsRequest = new RequestType0<KubernetesContextsResult, void>(
+    'yamlKubernetesCompletion/kubernetesContexts'
+);
+
+// Commands executed by the server, the first argument is the uri of the document
+enum KubernetesCommand {
+    DryRun = 'yamlKubernetesCompletion.server.dryRun',
+    Diff = 'yamlKubernetesCompletion.server.diff',
+    Resolve = 'yamlKubernetesCompletion.server.resolve',
+    Apply = 'yamlKubernetesCompletion.server.apply',
+    Delete = 'yamlKubernetesCompletion.server.delete'
+}
+
+interface KubernetesCommandResult {
+    success: boolean;
+    message: string;
+}
+
+interface KubernetesDiffResult extends KubernetesCommandResult {
+    resource?: string;
+    live?: string;
+    local?: string;
+    changes?: { path: string; type: 'added' | 'removed' | 'changed' }[];
+}
+
+interface KubernetesResolveResult extends KubernetesCommandResult {
+    resources: { resource: string; namespace?: string; context?: string }[];
+    version: number;
+}
+
+interface KubernetesObjectParams {
+    kind: string;
+    name?: string;
+    namespace?: string;
+}
+
+interface KubernetesObjectInfo {
+    name: string;
+    namespace?: string;
+}
+
+interface KubernetesManifestResult extends KubernetesCommandResult {
+    manifest?: string;
+}
+
+const KubernetesKindsRequest = new RequestType0<string[], void>('yamlKubernetesCompletion/kubernetesKinds');
+const KubernetesObjectsRequest = new RequestType<KubernetesObjectParams, KubernetesObjectInfo[], void>(
+    'yamlKubernetesCompletion/kubernetesObjects'
+);
+const KubernetesManifestRequest = new RequestType<KubernetesObjectParams, KubernetesManifestResult, void>(
+    'yamlKubernetesCompletion/kubernetesManifest'
+);
+
+// Documents shown in the diff editor, every diff gets new uris to not show outdated content
+const DIFF_SCHEME = 'kubernetes-diff';
+const diffContents = new Map<string, string>();
+let diffCount = 0;
+
+interface ContextQuickPickItem extends QuickPickItem {
+    contextName: string;
+}
+
+interface ObjectQuickPickItem extends QuickPickItem {
+    object: KubernetesObjectInfo;
+}
 
 let client: LanguageClient;
 
@@ -47,10 +152,239 @@ export function activate(context: ExtensionContext) {
         clientOptions
     );
 
+    // Show whether the server uses the cluster or works offline
+    const modeStatusBarItem = window.createStatusBarItem(StatusBarAlignment.Right);
+    context.subscriptions.push(modeStatusBarItem);
+
+    client.onReady().then(() => {
+        client.onNotification(KubernetesModeNotification, (params) => {
+            modeStatusBarItem.text = `Kubernetes: ${params.mode}`;
+            modeStatusBarItem.tooltip = params.message;
+            modeStatusBarItem.show();
+        });
+    });
+
+    // Let the user pin one of the contexts of the kubeconfig
+    context.subscriptions.push(commands.registerCommand('yamlKubernetesCompletion.selectContext', selectContext));
+
+    // Let the server validate the active document against the cluster
+    context.subscriptions.push(
+        commands.registerCommand('yamlKubernetesCompletion.dryRun', async () =>
+            showResult(await executeServerCommand(KubernetesCommand.DryRun))
+        )
+    );
+
+    // Let the user compare the resource at the cursor to its live object
+    context.subscriptions.push(
+        workspace.registerTextDocumentContentProvider(DIFF_SCHEME, {
+            provideTextDocumentContent: (uri) => diffContents.get(uri.toString()) || ''
+        })
+    );
+    context.subscriptions.push(
+        workspace.onDidCloseTextDocument((document) => diffContents.delete(document.uri.toString()))
+    );
+    context.subscriptions.push(commands.registerCommand('yamlKubernetesCompletion.diff', showDiff));
+
+    // Let the user apply or delete the resource at the cursor or all resources of the active document
+    context.subscriptions.push(
+        commands.registerCommand('yamlKubernetesCompletion.apply', () =>
+            changeResources(KubernetesCommand.Apply, false)
+        ),
+        commands.registerCommand('yamlKubernetesCompletion.applyFile', () =>
+            changeResources(KubernetesCommand.Apply, true)
+        ),
+        commands.registerCommand('yamlKubernetesCompletion.delete', () =>
+            changeResources(KubernetesCommand.Delete, false)
+        ),
+        commands.registerCommand('yamlKubernetesCompletion.deleteFile', () =>
+            changeResources(KubernetesCommand.Delete, true)
+        )
+    );
+
+    // Let the user generate a manifest from an object of the cluster
+    context.subscriptions.push(commands.registerCommand('yamlKubernetesCompletion.generateManifest', generateManifest));
+
     // Start the client. This will also launch the server
     client.start();
 }
 
+async function selectContext(): Promise<void> {
+    await client.onReady();
+    let result: KubernetesContextsResult;
+    try {
+        result = await client.sendRequest(KubernetesContextsRequest);
+    } catch (error) {
+        window.showErrorMessage(`Unable to load kubernetes contexts: ${error}`);
+        return;
+    }
+
+    const items: ContextQuickPickItem[] = [
+        {
+            label: 'Use current context of the kubernetes config',
+            picked: result.pinnedContext.length === 0,
+            contextName: ''
+        },
+        ...result.contexts.map((kubernetesContext) => ({
+            label: kubernetesContext.name,
+            description: kubernetesContext.name === result.currentContext ? '(active)' : undefined,
+            detail: kubernetesContext.namespace
+                ? `${kubernetesContext.cluster} / ${kubernetesContext.namespace}`
+                : kubernetesContext.cluster,
+            contextName: kubernetesContext.name
+        }))
+    ];
+    // A pinned context which was removed from the kubeconfig has to be replaced by the user
+    const pinnedContext = result.pinnedContext;
+    if (pinnedContext && !result.contexts.some((kubernetesContext) => kubernetesContext.name === pinnedContext)) {
+        items.push({
+            label: pinnedContext,
+            description: '(pinned, missing in the kubernetes config)',
+            picked: true,
+            contextName: pinnedContext
+        });
+    }
+    const selected = await window.showQuickPick(items, { placeHolder: 'Select the kubernetes context' });
+    if (!selected) {
+        return;
+    }
+
+    // The server rebuilds its resources as soon as the setting changes
+    const target = workspace.workspaceFolders ? ConfigurationTarget.Workspace : ConfigurationTarget.Global;
+    await workspace
+        .getConfiguration('yamlKubernetesCompletion')
+        .update('kubectl.context', selected.contextName, target);
+}
+
+// Execute a command of the server for the active document and optionally the position of the cursor
+async function executeServerCommand<T extends KubernetesCommandResult>(
+    command: KubernetesCommand,
+    withPosition = true,
+    version?: number
+): Promise<T | undefined> {
+    const editor = window.activeTextEditor;
+    if (!editor) {
+        window.showErrorMessage('No document is active');
+        return undefined;
+    }
+    await client.onReady();
+    try {
+        return await client.sendRequest(ExecuteCommandRequest.type, {
+            command: command,
+            arguments: [
+                editor.document.uri.toString(),
+                withPosition ? client.code2ProtocolConverter.asPosition(editor.selection.active) : null,
+                version
+            ]
+        });
+    } catch (error) {
+        window.showErrorMessage(`Unable to execute ${command}: ${error}`);
+        return undefined;
+    }
+}
+
+function showResult(result: KubernetesCommandResult | undefined): void {
+    if (result?.success) {
+        window.showInformationMessage(result.message);
+    } else if (result) {
+        window.showErrorMessage(result.message);
+    }
+}
+
+async function showDiff(): Promise<void> {
+    const result = await executeServerCommand<KubernetesDiffResult>(KubernetesCommand.Diff);
+    if (!result || !result.success || result.local === undefined) {
+        showResult(result);
+        return;
+    }
+    if (result.live !== undefined && !result.changes?.length) {
+        window.showInformationMessage(`${result.resource} is identical to the live object`);
+        return;
+    }
+
+    diffCount++;
+    const liveUri = Uri.from({ scheme: DIFF_SCHEME, path: `/${result.resource}.live.yaml`, query: `${diffCount}` });
+    const localUri = Uri.from({ scheme: DIFF_SCHEME, path: `/${result.resource}.yaml`, query: `${diffCount}` });
+    diffContents.set(liveUri.toString(), result.live || '');
+    diffContents.set(localUri.toString(), result.local);
+    await commands.executeCommand('vscode.diff', liveUri, localUri, `${result.resource} (Cluster ↔ Local)`);
+}
+
+// Changes of the cluster have to be confirmed by the user, who sees the resources and their contexts
+async function changeResources(
+    command: KubernetesCommand.Apply | KubernetesCommand.Delete,
+    allResources: boolean
+): Promise<void> {
+    const resolved = await executeServerCommand<KubernetesResolveResult>(KubernetesCommand.Resolve, !allResources);
+    if (!resolved?.success) {
+        showResult(resolved);
+        return;
+    }
+    const action = command === KubernetesCommand.Apply ? 'Apply' : 'Delete';
+    const direction = command === KubernetesCommand.Apply ? 'to' : 'from';
+    const contexts = [...new Set(resolved.resources.map((resource) => resource.context))];
+    const target = contexts.length === 1 && contexts[0] ? `context ${contexts[0]}` : 'the cluster';
+    const detail = resolved.resources
+        .map((resource) => {
+            const namespace = resource.namespace ? ` in namespace ${resource.namespace}` : '';
+            const context = resource.context ? `context ${resource.context}` : 'cluster not available';
+            return `${resource.resource}${namespace} (${context})`;
+        })
+        .join('\n');
+    const confirmation = await window.showWarningMessage(
+        `${action} ${resolved.resources.length} resource(s) ${direction} ${target}?`,
+        { modal: true, detail: detail },
+        action
+    );
+    if (confirmation === action) {
+        // The server refuses to change the resources if the document was edited in the meantime
+        showResult(await executeServerCommand(command, !allResources, resolved.version));
+    }
+}
+
+async function generateManifest(): Promise<void> {
+    await client.onReady();
+    let kinds: string[];
+    try {
+        kinds = await client.sendRequest(KubernetesKindsRequest);
+    } catch (error) {
+        window.showErrorMessage(`Unable to load the kinds of the cluster: ${error}`);
+        return;
+    }
+    if (!kinds.length) {
+        window.showErrorMessage('No kinds of the cluster are available');
+        return;
+    }
+    const kind = await window.showQuickPick(kinds, { placeHolder: 'Select the kind of the object' });
+    if (!kind) {
+        return;
+    }
+
+    let objects: KubernetesObjectInfo[];
+    try {
+        objects = await client.sendRequest(KubernetesObjectsRequest, { kind: kind });
+    } catch (error) {
+        window.showErrorMessage(`Unable to list the objects of kind ${kind}: ${error}`);
+        return;
+    }
+    const items: ObjectQuickPickItem[] = objects.map((object) => ({
+        label: object.name,
+        description: object.namespace,
+        object: object
+    }));
+    const selected = await window.showQuickPick(items, { placeHolder: `Select the ${kind}` });
+    if (!selected) {
+        return;
+    }
+
+    const result = await client.sendRequest(KubernetesManifestRequest, { kind: kind, ...selected.object });
+    if (!result.success || result.manifest === undefined) {
+        showResult(result);
+        return;
+    }
+    const document = await workspace.openTextDocument({ language: 'yaml', content: result.manifest });
+    await window.showTextDocument(document);
+}
+
 export function deactivate(): Thenable<void> | undefined {
     if (!client) {
         return undefined;
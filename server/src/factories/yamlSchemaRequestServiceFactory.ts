@@ -9,6 +9,10 @@ export class YamlSchemaRequestServiceFactory {
             return yamlSchemaRequestService.requestSchemaTest;
         }
         const yamlSchemaRequestService = new YamlSchemaRequestService(baseUri);
+        return YamlSchemaRequestServiceFactory.toSchemaRequestService(yamlSchemaRequestService);
+    }
+
+    public static toSchemaRequestService(yamlSchemaRequestService: YamlSchemaRequestService): SchemaRequestService {
         return yamlSchemaRequestService.requestSchema.bind(yamlSchemaRequestService);
     }
 }
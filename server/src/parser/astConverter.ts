@@ -1,7 +1,9 @@
 import { ASTNode, ObjectASTNode, PropertyASTNode } from 'vscode-json-languageservice';
 import {
+    Alias,
     CST,
     Document,
+    isAlias,
     isMap,
     isNode,
     isPair,
@@ -18,6 +20,7 @@ import {
 import { IRange } from '../validation/validationResult';
 import {
     ArrayASTNodeImpl,
+    ASTNodeImpl,
     BooleanASTNodeImpl,
     NullASTNodeImpl,
     NumberASTNodeImpl,
@@ -26,12 +29,23 @@ import {
     StringASTNodeImpl
 } from './astJsonTypes';
 import { YamlNode } from './cstYamlTypes';
+import { AstUtils } from '../utils/ast';
 
 export class AstConverter {
+    static readonly mergeKey = '<<';
+
     private tokenMap: Map<ASTNode, CST.Token | CST.CollectionItem | undefined>;
+    private anchors: Map<string, number>;
+    //nodes which are currently resolved by an alias or merge key, used to stop at recursive references
+    private resolvingNodes: Set<Node>;
+    //aliases of anchors which are not defined before them, by their offset
+    private unknownAliases: Map<number, { anchor: string; range: IRange }>;
 
     constructor() {
         this.tokenMap = new Map();
+        this.anchors = new Map();
+        this.resolvingNodes = new Set();
+        this.unknownAliases = new Map();
     }
 
     public convert(
@@ -51,8 +65,13 @@ export class AstConverter {
             convertedNode = this.convertSeq(node, parent, parsedYamlDocument, lineCounter);
         } else if (isScalar(node)) {
             convertedNode = this.convertScalar(node, parent);
+        } else if (isAlias(node)) {
+            convertedNode = this.convertAlias(node, parent, parsedYamlDocument, lineCounter);
         }
 
+        if (isNode(node) && node.anchor && node.range && !this.anchors.has(node.anchor)) {
+            this.anchors.set(node.anchor, node.range[0]);
+        }
         if (convertedNode) {
             this.tokenMap.set(convertedNode, node.srcToken);
         }
@@ -64,6 +83,23 @@ export class AstConverter {
         return this.tokenMap;
     }
 
+    //get the names of all anchors with the offset of their node
+    public getAnchors() {
+        return this.anchors;
+    }
+
+    public getUnknownAliases(): { anchor: string; range: IRange }[] {
+        return [...this.unknownAliases.values()];
+    }
+
+    private resolveAlias(node: Alias, parsedYamlDocument: Document): Node | undefined {
+        const anchoredNode = node.resolve(parsedYamlDocument);
+        if (!anchoredNode && node.range) {
+            this.unknownAliases.set(node.range[0], { anchor: node.source, range: this.convertRange(node.range) });
+        }
+        return anchoredNode;
+    }
+
     private convertMap(
         node: YAMLMap<unknown, unknown>,
         parent: ASTNode | undefined,
@@ -81,15 +117,79 @@ export class AstConverter {
             const astMapNode = new ObjectASTNodeImpl(parent, range.offset, range.length);
 
             for (const item of node.items) {
-                if (isPair(item)) {
+                if (isPair(item) && !this.isMergePair(item)) {
                     const propertyNode = this.convert(item, astMapNode, parsedYamlDocument, lineCounter);
                     astMapNode.properties.push(propertyNode as PropertyASTNode);
                 }
             }
+            //properties of the map override merged properties, earlier merged maps override later ones
+            for (const item of this.getMergedPairs(node, parsedYamlDocument)) {
+                const propertyNode = this.convert(item, astMapNode, parsedYamlDocument, lineCounter) as
+                    | PropertyASTNode
+                    | undefined;
+                if (propertyNode && !AstUtils.hasProperty(astMapNode, propertyNode.keyNode.value)) {
+                    astMapNode.properties.push(propertyNode);
+                }
+            }
             return astMapNode;
         }
     }
 
+    private isMergePair(pair: Pair<unknown, unknown>): boolean {
+        return isScalar(pair.key) && pair.key.type === Scalar.PLAIN && pair.key.value === AstConverter.mergeKey;
+    }
+
+    //get the pairs of all maps merged into the given map with "<<: *anchor" or "<<: [*anchor1, *anchor2]"
+    private getMergedPairs(node: YAMLMap<unknown, unknown>, parsedYamlDocument: Document): Pair<unknown, unknown>[] {
+        const mergedPairs: Pair<unknown, unknown>[] = [];
+        for (const item of node.items) {
+            if (!isPair(item) || !this.isMergePair(item)) {
+                continue;
+            }
+            const sources = isSeq(item.value) ? item.value.items : [item.value];
+            for (const source of sources) {
+                const sourceMap = isAlias(source) ? this.resolveAlias(source, parsedYamlDocument) : source;
+                if (!isMap(sourceMap) || this.resolvingNodes.has(sourceMap)) {
+                    continue;
+                }
+                this.resolvingNodes.add(sourceMap);
+                for (const sourceItem of sourceMap.items) {
+                    if (isPair(sourceItem) && !this.isMergePair(sourceItem)) {
+                        mergedPairs.push(sourceItem);
+                    }
+                }
+                mergedPairs.push(...this.getMergedPairs(sourceMap, parsedYamlDocument));
+                this.resolvingNodes.delete(sourceMap);
+            }
+        }
+        return mergedPairs;
+    }
+
+    private convertAlias(
+        node: Alias,
+        parent: ASTNode | undefined,
+        parsedYamlDocument: Document,
+        lineCounter: LineCounter
+    ): ASTNode | undefined {
+        const anchoredNode = this.resolveAlias(node, parsedYamlDocument);
+        //ignore unknown anchors and aliases inside of their own anchored node
+        if (!anchoredNode || !node.range || this.resolvingNodes.has(anchoredNode)) {
+            return undefined;
+        }
+
+        //use the anchored node for validation, but keep the range of the alias for the node itself
+        this.resolvingNodes.add(anchoredNode);
+        const convertedNode = this.convert(anchoredNode, parent, parsedYamlDocument, lineCounter);
+        this.resolvingNodes.delete(anchoredNode);
+
+        if (convertedNode instanceof ASTNodeImpl) {
+            const range = this.convertRange(node.range, parent);
+            convertedNode.offset = range.offset;
+            convertedNode.length = range.length;
+        }
+        return convertedNode;
+    }
+
     private convertRange(range: Range, parent?: ASTNode | undefined): IRange {
         let offset = range[0];
         if (parent && parent.type == 'property') {
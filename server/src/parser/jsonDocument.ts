@@ -7,8 +7,9 @@ import {
     NoOpSchemaCollector,
     SchemaCollector
 } from '../validation/schemaCollector';
-import { ValidationResult } from '../validation/validationResult';
+import { IProblem, ProblemCode, ValidationResult } from '../validation/validationResult';
 import * as Json from 'jsonc-parser';
+import * as l10n from '@vscode/l10n';
 import { ValidationUtil } from '../utils/validation';
 import { SchemaValidator } from '../validation/schemaValidator';
 
@@ -57,12 +58,23 @@ export class JSONDocument {
                 NoOpSchemaCollector.instance,
                 new EvaluationContext(schemaDraft ?? ValidationUtil.getSchemaDraft(schema))
             );
+            //nhahn[add]: tell where not allowed properties belong to, collecting the schemas is only needed then
+            const notAllowedProblems = validationResult.problems.filter(
+                (p) => p.code === ProblemCode.PropertyNotAllowed
+            );
+            if (notAllowedProblems.length) {
+                const matchingSchemas = this.getMatchingSchemas(schema);
+                notAllowedProblems.forEach((p) => this.addPropertyPlacementHint(p, matchingSchemas));
+            }
             return validationResult.problems.map((p) => {
                 const range = Range.create(
                     textDocument.positionAt(p.location.offset),
                     textDocument.positionAt(p.location.offset + p.location.length)
                 );
-                return Diagnostic.create(range, p.message, p.severity ?? severity, p.code);
+                const diagnostic = Diagnostic.create(range, p.message, p.severity ?? severity, p.code);
+                //nhahn[add]: pass data to fix the problem to code actions
+                diagnostic.data = p.data;
+                return diagnostic;
             });
         }
         return undefined;
@@ -78,4 +90,63 @@ export class JSONDocument {
         }
         return [];
     }
+
+    //nhahn[add]: method to add the location of a property placed at the wrong nesting level to the problem
+    private addPropertyPlacementHint(problem: IProblem, matchingSchemas: IApplicableSchema[]): void {
+        const property = problem.data?.property;
+        const objectNode = this.getNodeFromOffset(problem.location.offset)?.parent?.parent;
+        if (!property || !objectNode || objectNode.type !== 'object') {
+            return;
+        }
+        const path = this.findPropertyPath(objectNode, property, matchingSchemas);
+        if (path === undefined) {
+            return;
+        }
+        problem.message +=
+            ' ' +
+            (path
+                ? l10n.t('Did you mean to put it under "{0}"?', path)
+                : l10n.t('Did you mean to put it at the top level?'));
+    }
+
+    //find the closest object whose schema knows the property, looking at the children first and then at the parents
+    private findPropertyPath(
+        objectNode: ASTNode,
+        property: string,
+        matchingSchemas: IApplicableSchema[]
+    ): string | undefined {
+        const getSchemas = (node: ASTNode) =>
+            matchingSchemas.filter((s) => s.node === node && !s.inverted).map((s) => s.schema);
+        const hasProperty = (schema: JSONSchema | undefined) => !!schema?.properties?.[property];
+
+        //e.g. a container property placed directly in the pod spec
+        for (const schema of getSchemas(objectNode)) {
+            for (const [name, propertySchemaRef] of Object.entries(schema.properties || {})) {
+                const propertySchema = ValidationUtil.asSchema(propertySchemaRef);
+                const items = propertySchema.items;
+                const itemSchema = items && !Array.isArray(items) ? ValidationUtil.asSchema(items) : undefined;
+                if (hasProperty(propertySchema)) {
+                    return this.formatPath([...ValidationUtil.getNodePath(objectNode), name]);
+                }
+                //the property belongs to the items of an array, e.g. spec.containers[]
+                if (hasProperty(itemSchema)) {
+                    return this.formatPath([...ValidationUtil.getNodePath(objectNode), name]) + '[]';
+                }
+            }
+        }
+
+        //e.g. a deployment spec property placed in the pod template
+        for (let node = objectNode.parent; node; node = node.parent) {
+            if (node.type === 'object' && getSchemas(node).some(hasProperty)) {
+                return this.formatPath(ValidationUtil.getNodePath(node));
+            }
+        }
+        return undefined;
+    }
+
+    private formatPath(path: Json.JSONPath): string {
+        return path
+            .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : (index ? '.' : '') + segment))
+            .join('');
+    }
 }
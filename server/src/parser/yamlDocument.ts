@@ -3,7 +3,13 @@ import { CST } from 'yaml';
 import { JSONDocument } from './jsonDocument';
 
 export class YamlDocument extends JSONDocument {
+    private static readonly KUBERNETES_CONTEXT_MODELINE = /^#\s*kubernetes-context:\s*(\S+)\s*$/;
+
     public tokenMap: Map<ASTNode, CST.Token | CST.CollectionItem | undefined>;
+    //text of the comments before the content of the document
+    public leadingComments: string[];
+    //names of the anchors with the offset of their node
+    public anchors: Map<string, number>;
     public range: {
         startOffset: number;
         endOffset: number;
@@ -12,6 +18,8 @@ export class YamlDocument extends JSONDocument {
     constructor(root: ASTNode | undefined, syntaxErrors: Diagnostic[] = [], comments: Range[] = []) {
         super(root, syntaxErrors, comments);
         this.tokenMap = new Map();
+        this.leadingComments = [];
+        this.anchors = new Map();
         this.range = {
             startOffset: -1,
             endOffset: -1
@@ -39,6 +47,17 @@ export class YamlDocument extends JSONDocument {
         return this.getCstTokenFromAstNode(astNode);
     }
 
+    //get the kubeconfig context selected by a comment like "# kubernetes-context: prod" at the top of the document
+    public getKubernetesContext(): string | undefined {
+        for (const comment of this.leadingComments) {
+            const match = comment.match(YamlDocument.KUBERNETES_CONTEXT_MODELINE);
+            if (match) {
+                return match[1];
+            }
+        }
+        return undefined;
+    }
+
     public isInComment(pos: Position) {
         for (const comment of this.comments) {
             if (
@@ -1,5 +1,6 @@
 import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-json-languageservice';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as l10n from '@vscode/l10n';
 import { Composer, CST, DocumentOptions, LineCounter, ParseOptions, Parser, SchemaOptions } from 'yaml';
 import { AstConverter } from './astConverter';
 import { YamlDocument } from './yamlDocument';
@@ -87,11 +88,23 @@ export class YamlParser {
             if (composedToken.contents) {
                 const astConverter = new AstConverter();
                 const astNode = astConverter.convert(composedToken.contents, undefined, composedToken, lineCounter);
+                for (const alias of astConverter.getUnknownAliases()) {
+                    syntaxErrorDiagnostics.push(
+                        Diagnostic.create(
+                            this.createRangeItemFromOffset(alias.range.offset, alias.range.offset + alias.range.length),
+                            l10n.t('Anchor {0} is not defined.', alias.anchor),
+                            DiagnosticSeverity.Error,
+                            undefined,
+                            'Kubernetes YAML-Parser'
+                        )
+                    );
+                }
 
                 const yamlDocument = new YamlDocument(astNode, syntaxErrorDiagnostics);
                 yamlDocument.range.startOffset = this.yamlDocuments.length == 0 ? 0 : composedToken.range[0];
                 yamlDocument.range.endOffset = composedToken.range[2];
                 yamlDocument.tokenMap = astConverter.getTokenMap();
+                yamlDocument.anchors = astConverter.getAnchors();
 
                 this.yamlDocuments.push(yamlDocument);
             }
@@ -103,6 +116,10 @@ export class YamlParser {
         let yamlDocumentCounter = -1;
         for (const token of tokens) {
             if (YamlParser.isDocumentToken(token)) {
+                yamlDocumentCounter++;
+                //remember the text of comments before the content of the document, e.g. after the document start marker
+                this.getLeadingCommentsFromCstItems(token.start, yamlDocumentCounter);
+
                 //parse comments of root document token
                 if (token.end !== undefined) {
                     this.getCommentsFromCstItems(token.end, yamlDocumentCounter);
@@ -122,11 +139,13 @@ export class YamlParser {
                         this.getCommentsFromCstItems(item.value.end, yamlDocumentCounter);
                     }
                 });
-                yamlDocumentCounter++;
             }
             //parse comments before document token
             else if (token.type == YamlParser.commentTypeName) {
                 this.createCommentRangeFromCstItem(token, yamlDocumentCounter);
+                if (yamlDocumentCounter == -1) {
+                    this.getLeadingCommentsFromCstItems([token], yamlDocumentCounter);
+                }
             } else if (YamlParser.isDocumentEndToken(token) && token.end !== undefined) {
                 this.getCommentsFromCstItems(token.end, yamlDocumentCounter);
             }
@@ -141,6 +160,15 @@ export class YamlParser {
         }
     }
 
+    private getLeadingCommentsFromCstItems(items: CST.SourceToken[], yamlDocumentCounter: number) {
+        const yamlDocument = this.yamlDocuments[this.getCurrentDocumentCounter(yamlDocumentCounter)];
+        for (const item of items) {
+            if (item.type == YamlParser.commentTypeName && yamlDocument) {
+                yamlDocument.leadingComments.push(item.source);
+            }
+        }
+    }
+
     private createRangeItemFromOffset(start: number, end: number): Range {
         return Range.create(this.textDocument.positionAt(start), this.textDocument.positionAt(end));
     }
@@ -148,8 +176,12 @@ export class YamlParser {
     private createCommentRangeFromCstItem(item: CST.SourceToken, yamlDocumentCounter: number) {
         //workaround if we encounter comment tokens before the first document token => append them to first document as well.
         const currentCounter = this.getCurrentDocumentCounter(yamlDocumentCounter);
+        const yamlDocument = this.yamlDocuments[currentCounter];
+        if (!yamlDocument) {
+            return;
+        }
         const range = this.createRangeItemFromOffset(item.offset, item.offset + item.source.length);
-        this.yamlDocuments[currentCounter].comments.push(range);
+        yamlDocument.comments.push(range);
     }
 
     private getCurrentDocumentCounter(yamlDocumentCounter: number) {
@@ -1,4 +1,5 @@
 import {
+    CodeActionKind,
     DidChangeConfigurationNotification,
     DidChangeConfigurationParams,
     InitializeParams,
@@ -8,17 +9,30 @@ import {
 } from 'vscode-languageserver';
 import { EventManager } from '../handlers/event';
 import { ArrayUtils } from '../utils/array';
+import { KubernetesCommand } from '../types/protocol';
 
 export interface YamlKubernetesCompletionSettings {
     kubectl: {
         cacheTimeout: number;
         configFilePath: string;
+        useClusterSchemas: boolean;
+        offline: boolean;
+        context: string;
+        //field manager owning the fields of applied resources
+        fieldManager: string;
     };
     completion: {
         indentation: number;
     };
     validation: {
         associatedFiles: string[];
+        kubernetesVersion: string;
+        clusterReferences: boolean;
+        dryRunOnSave: boolean;
+    };
+    format: {
+        indentSequences: boolean;
+        orderKeys: boolean;
     };
 }
 
@@ -41,6 +55,8 @@ export class ConfigurationService {
     private hasDiagnosticRelatedInformationCapability = false;
     private eventManager: EventManager;
     private initialized = false;
+    //uris of the folders opened in the client
+    private workspaceFolders: string[] = [];
 
     constructor(private connection: _Connection) {
         this.currentSettings = this.getDefaultSettings();
@@ -74,14 +90,23 @@ export class ConfigurationService {
                 });
         }
         if (this.hasWorkspaceFolderCapability) {
-            this.connection.workspace.onDidChangeWorkspaceFolders((_event) => {
+            this.connection.workspace.onDidChangeWorkspaceFolders((event) => {
                 this.connection.console.log('Workspace folder change event received.');
+                const removedFolders = event.removed.map((folder) => folder.uri);
+                this.workspaceFolders = this.workspaceFolders
+                    .filter((folder) => !removedFolders.includes(folder))
+                    .concat(event.added.map((folder) => folder.uri));
             });
         }
     }
 
     private onConnectionInitialize(params: InitializeParams): InitializeResult {
         const capabilities = params.capabilities;
+        if (params.workspaceFolders) {
+            this.workspaceFolders = params.workspaceFolders.map((folder) => folder.uri);
+        } else if (params.rootUri) {
+            this.workspaceFolders = [params.rootUri];
+        }
 
         // Does the client support the `workspace/configuration` request?
         // If not, we fall back using global settings.
@@ -95,11 +120,36 @@ export class ConfigurationService {
 
         const result: InitializeResult = {
             capabilities: {
-                textDocumentSync: TextDocumentSyncKind.Incremental,
+                textDocumentSync: {
+                    openClose: true,
+                    change: TextDocumentSyncKind.Incremental,
+                    // Tell the client to notify the server about saved documents, e.g. for a dry run on save.
+                    save: true
+                },
                 // Tell the client that this server supports code completion.
                 completionProvider: {
                     resolveProvider: true
-                }
+                },
+                // Tell the client that this server supports hover information.
+                hoverProvider: true,
+                // Tell the client that this server supports quick fixes for diagnostics.
+                codeActionProvider: {
+                    codeActionKinds: [CodeActionKind.QuickFix]
+                },
+                // Tell the client that this server supports the outline of documents.
+                documentSymbolProvider: true,
+                // Tell the client that this server supports searching resources in the workspace.
+                workspaceSymbolProvider: true,
+                // Tell the client that this server supports navigating between referencing resources.
+                definitionProvider: true,
+                referencesProvider: true,
+                // Tell the client that this server executes commands against the cluster.
+                executeCommandProvider: {
+                    commands: Object.values(KubernetesCommand)
+                },
+                // Tell the client that this server supports formatting documents and selections.
+                documentFormattingProvider: true,
+                documentRangeFormattingProvider: true
             }
         };
         if (this.hasWorkspaceFolderCapability) {
@@ -120,15 +170,31 @@ export class ConfigurationService {
         const settingsDiff: SettingsDiff = {
             changed: []
         };
-        if (old.kubectl.cacheTimeout != current.kubectl.cacheTimeout) {
+        if (
+            old.kubectl.cacheTimeout != current.kubectl.cacheTimeout ||
+            old.kubectl.useClusterSchemas != current.kubectl.useClusterSchemas ||
+            old.kubectl.offline != current.kubectl.offline ||
+            old.kubectl.context != current.kubectl.context
+        ) {
             settingsDiff.changed.push('kubectl');
         }
         if (old.completion.indentation != current.completion.indentation) {
             settingsDiff.changed.push('completion');
         }
-        if (ArrayUtils.isDifferent<string>(old.validation.associatedFiles, current.validation.associatedFiles)) {
+        if (
+            ArrayUtils.isDifferent<string>(old.validation.associatedFiles, current.validation.associatedFiles) ||
+            old.validation.kubernetesVersion != current.validation.kubernetesVersion ||
+            old.validation.clusterReferences != current.validation.clusterReferences ||
+            old.validation.dryRunOnSave != current.validation.dryRunOnSave
+        ) {
             settingsDiff.changed.push('validation');
         }
+        if (
+            old.format.indentSequences != current.format.indentSequences ||
+            old.format.orderKeys != current.format.orderKeys
+        ) {
+            settingsDiff.changed.push('format');
+        }
         return settingsDiff;
     }
 
@@ -168,13 +234,24 @@ export class ConfigurationService {
         return {
             kubectl: {
                 cacheTimeout: 600,
-                configFilePath: ''
+                configFilePath: '',
+                useClusterSchemas: false,
+                offline: false,
+                context: '',
+                fieldManager: 'yaml-kubernetes-completion'
             },
             completion: {
                 indentation: 4
             },
             validation: {
-                associatedFiles: ['kubernetes.yaml']
+                associatedFiles: ['kubernetes.yaml'],
+                kubernetesVersion: '',
+                clusterReferences: false,
+                dryRunOnSave: false
+            },
+            format: {
+                indentSequences: true,
+                orderKeys: false
             }
         };
     }
@@ -182,4 +259,8 @@ export class ConfigurationService {
     public getCurrentSettings(): YamlKubernetesCompletionSettings {
         return this.currentSettings;
     }
+
+    public getWorkspaceFolders(): string[] {
+        return this.workspaceFolders;
+    }
 }
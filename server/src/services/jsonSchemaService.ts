@@ -19,7 +19,8 @@ import {
 } from 'vscode-json-languageservice';
 import { ValidationUtil } from '../utils/validation';
 import { JSONSchema, JSONSchemaMap, JSONSchemaRef } from '../types/jsonSchema';
-import { KubernetesValidationUtil } from '../utils/kubernetes';
+import { KubernetesResourceMap, KubernetesServedVersion, KubernetesValidationUtil } from '../utils/kubernetes';
+import { YamlDocument } from '../parser/yamlDocument';
 
 export interface IJSONSchemaService {
     /**
@@ -83,7 +84,21 @@ interface IGlobWrapper {
     include: boolean;
 }
 
-class FilePatternAssociation {
+//nhahn[add]: kinds and custom resources available on a cluster
+export interface KubernetesClusterResources {
+    resourceInfo?: KubernetesResourceMap;
+    customResourceSchemas?: JSONSchema[];
+    serverVersion?: string;
+}
+
+interface KubernetesResources {
+    resourceInfo?: KubernetesResourceMap;
+    customResourceSchemaHandles: SchemaHandle[];
+    serverVersion?: string;
+}
+
+//nhahn[edit]: export to find the associated files in the workspace
+export class FilePatternAssociation {
     private readonly uris: string[];
     private readonly globWrappers: IGlobWrapper[];
 
@@ -253,11 +268,13 @@ export class JSONSchemaService implements IJSONSchemaService {
     private requestService: SchemaRequestService | undefined;
     private promiseConstructor: PromiseConstructor;
     //nhahn[add]: new attribute
-    private kubernetesResourceInfo: Map<string, string> | undefined;
+    private kubernetesResources: KubernetesResources;
+    private contextKubernetesResources: Map<string, KubernetesResources>;
 
     private cachedSchemaForResource:
         | {
               resource: string;
+              context: string | undefined;
               resolvedSchema: Thenable<ResolvedSchema | undefined>;
           }
         | undefined;
@@ -277,6 +294,8 @@ export class JSONSchemaService implements IJSONSchemaService {
         this.schemasById = {};
         this.filePatternAssociations = [];
         this.registeredSchemasIds = {};
+        this.kubernetesResources = { customResourceSchemaHandles: [] };
+        this.contextKubernetesResources = new Map();
     }
 
     public getRegisteredSchemaIds(filter?: (scheme: string) => boolean): string[] {
@@ -296,9 +315,59 @@ export class JSONSchemaService implements IJSONSchemaService {
         }
     }
 
-    //nhahn[add]: method to set kubernetes resource info
-    public setResourceInfo(kubernetesResourceInfo: Map<string, string> | undefined) {
-        this.kubernetesResourceInfo = kubernetesResourceInfo;
+    //nhahn[add]: method to set the kinds and custom resources available on the cluster
+    //resources of a context are only used for documents selecting that context, no resource info removes the context
+    public setKubernetesResources(clusterResources: KubernetesClusterResources, context?: string) {
+        const resourceInfo = clusterResources.resourceInfo;
+        const customResourceSchemaHandles = (clusterResources.customResourceSchemas || []).map((schema) => {
+            const resInfo = KubernetesValidationUtil.getGroupVersionKindFromSchema(schema);
+            const contextPath = context ? `${encodeURIComponent(context)}/` : '';
+            const id = normalizeId(
+                `kubernetes://customresource/${contextPath}${resInfo?.groupVersion}/${resInfo?.kind}`
+            );
+            return new SchemaHandle(this, id, schema);
+        });
+        const resources = {
+            resourceInfo: resourceInfo,
+            customResourceSchemaHandles: customResourceSchemaHandles,
+            serverVersion: clusterResources.serverVersion
+        };
+
+        if (context === undefined) {
+            this.kubernetesResources = resources;
+        } else if (resourceInfo) {
+            this.contextKubernetesResources.set(context, resources);
+        } else {
+            this.contextKubernetesResources.delete(context);
+        }
+        this.cachedSchemaForResource = undefined;
+    }
+
+    //nhahn[add]: method to check whether a kind is namespaced on the cluster of the document, undefined if unknown
+    public isNamespacedResource(document: JSONDocument, groupVersion: string, kind: string): boolean | undefined {
+        const resourceInfo = this.getKubernetesResources(this.getKubernetesContext(document)).resourceInfo;
+        const servedVersion = resourceInfo?.get(kind)?.find((version) => version.groupVersion === groupVersion);
+        return servedVersion?.namespaced;
+    }
+
+    //nhahn[add]: method to get the versions of a kind served by the cluster of the document, undefined if unknown
+    public getServedVersions(document: JSONDocument, kind: string): KubernetesServedVersion[] | undefined {
+        const resourceInfo = this.getKubernetesResources(this.getKubernetesContext(document)).resourceInfo;
+        return resourceInfo && (resourceInfo.get(kind) || []);
+    }
+
+    //nhahn[add]: method to get the kubernetes version of the cluster of the document
+    public getKubernetesServerVersion(document: JSONDocument): string | undefined {
+        return this.getKubernetesResources(this.getKubernetesContext(document)).serverVersion;
+    }
+
+    private getKubernetesContext(document?: JSONDocument): string | undefined {
+        return document instanceof YamlDocument ? document.getKubernetesContext() : undefined;
+    }
+
+    //use the default cluster as long as the resources of the selected context are not available
+    private getKubernetesResources(context: string | undefined): KubernetesResources {
+        return (context !== undefined && this.contextKubernetesResources.get(context)) || this.kubernetesResources;
     }
 
     public onResourceChange(uri: string): boolean {
@@ -759,44 +828,78 @@ export class JSONSchemaService implements IJSONSchemaService {
                 return this.getOrAddSchemaHandle(id).getResolvedSchema();
             }
         }
-        if (this.cachedSchemaForResource && this.cachedSchemaForResource.resource === resource) {
+        //nhahn[add]: documents might select another cluster than the default one
+        const context = this.getKubernetesContext(document);
+        if (
+            this.cachedSchemaForResource &&
+            this.cachedSchemaForResource.resource === resource &&
+            this.cachedSchemaForResource.context === context
+        ) {
             return this.cachedSchemaForResource.resolvedSchema;
         }
         const schemas = this.getAssociatedSchemas(resource);
-        const resolvedSchema =
+        let resolvedSchema: Thenable<ResolvedSchema | undefined> =
             schemas.length > 0
                 ? this.createCombinedSchema(resource, schemas).getResolvedSchema()
                 : this.promise.resolve(undefined);
 
         //nhahn[add]: prefilter kubernetes schemas to only include kinds with groups available on the cluster
-        if (this.kubernetesResourceInfo && resolvedSchema) {
-            resolvedSchema.then(
-                ((schema: ResolvedSchema | undefined) => {
-                    if (schema && schema.schema.oneOf) {
-                        schema.schema.oneOf = this.filterKubernetesSchemas(schema);
-                    }
-                    return schema;
-                }).bind(this)
-            );
-        }
+        const kubernetesResources = this.getKubernetesResources(context);
+        resolvedSchema = resolvedSchema.then((schema) => this.createKubernetesSchema(schema, kubernetesResources));
 
-        this.cachedSchemaForResource = { resource, resolvedSchema };
+        this.cachedSchemaForResource = { resource, context, resolvedSchema };
         return resolvedSchema;
     }
 
+    //nhahn[add]: method to create a copy of the schema with the kinds and custom resources available on the cluster
+    private createKubernetesSchema(
+        schema: ResolvedSchema | undefined,
+        kubernetesResources: KubernetesResources
+    ): Thenable<ResolvedSchema | undefined> {
+        if (!schema || !schema.schema.oneOf) {
+            return this.promise.resolve(schema);
+        }
+        const resolvedCustomSchemas = kubernetesResources.customResourceSchemaHandles.map((handle) =>
+            handle.getResolvedSchema()
+        );
+
+        return this.promise.all(resolvedCustomSchemas).then((customSchemas) => {
+            const oneOf = this.filterKubernetesSchemas(schema, kubernetesResources.resourceInfo) || [];
+            const errors = schema.errors.slice(0);
+            const knownResources = new Set(oneOf.map((def) => this.getResourceKey(ValidationUtil.asSchema(def))));
+
+            for (const customSchema of customSchemas) {
+                //schemas downloaded from the cluster might already contain the custom resource
+                if (!knownResources.has(this.getResourceKey(customSchema.schema))) {
+                    errors.push(...customSchema.errors);
+                    oneOf.push(customSchema.schema);
+                }
+            }
+            return new ResolvedSchema({ ...schema.schema, oneOf: oneOf }, errors, schema.warnings, schema.schemaDraft);
+        });
+    }
+
+    private getResourceKey(schema: JSONSchema): string | undefined {
+        const resInfo = KubernetesValidationUtil.getGroupVersionKindFromSchema(schema);
+        return resInfo ? `${resInfo.groupVersion}/${resInfo.kind}` : undefined;
+    }
+
     //nhahn[add]: method to prefilter kubernetes schema
-    private filterKubernetesSchemas(schema: ResolvedSchema) {
+    private filterKubernetesSchemas(schema: ResolvedSchema, resourceInfo: KubernetesResourceMap | undefined) {
         const defsToFilter = schema.schema.oneOf;
         if (defsToFilter) {
             return defsToFilter.filter((def) => {
                 const schemaDef = ValidationUtil.asSchema(def);
                 const resInfo = KubernetesValidationUtil.getGroupVersionKindFromSchema(schemaDef);
                 if (resInfo) {
+                    //keep every kind if there is no cluster, e.g. in offline mode
+                    if (!resourceInfo) {
+                        return true;
+                    }
                     const kind = resInfo.kind;
                     const groupVersion = resInfo.groupVersion;
-                    return (
-                        this.kubernetesResourceInfo?.has(kind) && this.kubernetesResourceInfo.get(kind) === groupVersion
-                    );
+                    //keep every version served by the cluster, not only the preferred one
+                    return !!resourceInfo.get(kind)?.some((version) => version.groupVersion === groupVersion);
                 }
                 return false;
             });
@@ -20,6 +20,9 @@ import {
 } from 'vscode-json-languageservice';
 import { JSONDocument } from '../parser/jsonDocument';
 import { JSONSchemaRef } from 'vscode-json-languageservice/lib/umd/jsonSchema';
+import { KubernetesApiDeprecation, KubernetesValidationUtil } from '../utils/kubernetes';
+import { ValidationUtil } from '../utils/validation';
+import { ProblemCode, ProblemData } from '../validation/validationResult';
 
 export class JSONValidation {
     private jsonSchemaService: JSONSchemaService;
@@ -27,6 +30,9 @@ export class JSONValidation {
 
     private validationEnabled: boolean | undefined;
     private commentSeverity: DiagnosticSeverity | undefined;
+    //nhahn[add]: deprecated kubernetes apis and the kubernetes version to check them against
+    private apiDeprecations: KubernetesApiDeprecation[] = [];
+    private kubernetesVersion: string | undefined;
 
     public constructor(jsonSchemaService: JSONSchemaService, promiseConstructor: PromiseConstructor = Promise) {
         this.jsonSchemaService = jsonSchemaService;
@@ -41,6 +47,12 @@ export class JSONValidation {
         }
     }
 
+    //nhahn[add]: method to configure the deprecated kubernetes apis
+    public configureDeprecations(apiDeprecations: KubernetesApiDeprecation[], kubernetesVersion?: string) {
+        this.apiDeprecations = apiDeprecations;
+        this.kubernetesVersion = kubernetesVersion || undefined;
+    }
+
     public doValidation(
         textDocument: TextDocument,
         jsonDocument: JSONDocument,
@@ -120,6 +132,12 @@ export class JSONValidation {
                 }
             }
 
+            //nhahn[add]: warn about apis which are deprecated or removed in the target kubernetes version
+            const deprecationProblem = this.getDeprecationProblem(textDocument, jsonDocument);
+            if (deprecationProblem) {
+                addProblem(deprecationProblem);
+            }
+
             for (const p of jsonDocument.syntaxErrors) {
                 if (p.code === ErrorCode.TrailingComma) {
                     if (typeof trailingCommaSeverity !== 'number') {
@@ -151,6 +169,73 @@ export class JSONValidation {
         });
     }
 
+    //nhahn[add]: method to create a warning for the apiVersion of a deprecated or removed kubernetes api
+    private getDeprecationProblem(textDocument: TextDocument, jsonDocument: JSONDocument): Diagnostic | undefined {
+        const root = jsonDocument.root;
+        if (!root || root.type !== 'object') {
+            return undefined;
+        }
+        const apiVersion = ValidationUtil.getStringPropertyValue(root, 'apiVersion');
+        const kind = ValidationUtil.getStringPropertyValue(root, 'kind');
+        if (!apiVersion || !kind) {
+            return undefined;
+        }
+        const servedVersions = this.jsonSchemaService
+            .getServedVersions(jsonDocument, kind)
+            ?.map((servedVersion) => servedVersion.groupVersion);
+        //an api version the cluster does not serve anymore is removed, whatever kubernetes version is targeted
+        const unserved = servedVersions !== undefined && !servedVersions.includes(apiVersion);
+        const targetVersion = this.kubernetesVersion || this.jsonSchemaService.getKubernetesServerVersion(jsonDocument);
+        const deprecation = unserved
+            ? this.apiDeprecations.find(
+                  (deprecation) => deprecation.groupVersion === apiVersion && deprecation.kind === kind
+              )
+            : targetVersion &&
+              KubernetesValidationUtil.getDeprecation(this.apiDeprecations, apiVersion, kind, targetVersion);
+        const apiVersionNode = root.properties.find((property) => property.keyNode.value === 'apiVersion')?.valueNode;
+        if (!deprecation || !apiVersionNode) {
+            return undefined;
+        }
+
+        const removed = unserved || (!!targetVersion && KubernetesValidationUtil.isRemoved(deprecation, targetVersion));
+        //only migrate to a replacement the cluster serves
+        const servedReplacement =
+            deprecation.replacement && (!servedVersions || servedVersions.includes(deprecation.replacement))
+                ? deprecation.replacement
+                : undefined;
+        let replacement = l10n.t('There is no replacement API.');
+        if (servedReplacement) {
+            replacement = l10n.t('Use {0} instead.', servedReplacement);
+        } else if (deprecation.replacement) {
+            replacement = l10n.t('The replacement {0} is not served by the cluster.', deprecation.replacement);
+        }
+        const message = removed
+            ? l10n.t('{0} {1} was removed in Kubernetes {2}. {3}', apiVersion, kind, deprecation.removedIn, replacement)
+            : l10n.t(
+                  '{0} {1} is deprecated since Kubernetes {2} and will be removed in {3}. {4}',
+                  apiVersion,
+                  kind,
+                  deprecation.deprecatedIn,
+                  deprecation.removedIn,
+                  replacement
+              );
+        //the value node starts with the whitespace after the colon
+        const valueEnd = apiVersionNode.offset + apiVersionNode.length;
+        const valueText = textDocument.getText().substring(apiVersionNode.offset, valueEnd);
+        const range = Range.create(
+            textDocument.positionAt(valueEnd - valueText.trimStart().length),
+            textDocument.positionAt(valueEnd)
+        );
+        const diagnostic = Diagnostic.create(
+            range,
+            message,
+            DiagnosticSeverity.Warning,
+            removed ? ProblemCode.RemovedApiVersion : ProblemCode.DeprecatedApiVersion
+        );
+        diagnostic.data = <ProblemData>{ replacement: servedReplacement };
+        return diagnostic;
+    }
+
     public getLanguageStatus(textDocument: TextDocument, jsonDocument: JSONDocument): JSONLanguageStatus {
         return { schemas: this.jsonSchemaService.getSchemaURIsForResource(textDocument.uri, jsonDocument) };
     }
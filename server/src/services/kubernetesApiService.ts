@@ -1,59 +1,162 @@
 import { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { YamlKubernetesCompletionSettings } from './configurationService';
 import * as k8s from '@kubernetes/client-node';
-import { V1APIResourceList, V1GroupVersionForDiscovery } from '@kubernetes/client-node';
+import {
+    V1APIResourceList,
+    V1CustomResourceDefinition,
+    V1CustomResourceDefinitionList,
+    V1GroupVersionForDiscovery
+} from '@kubernetes/client-node';
 import axios from 'axios';
 import https from 'https';
 import request from 'request';
+import { JSONSchema, JSONSchemaMap } from '../types/jsonSchema';
+import { YamlSchemaRequestService } from './yamlSchemaRequestService';
+import { EventManager } from '../handlers/event';
+import { MapUtils } from '../utils/map';
+import { equals } from '../utils/objects';
+import { KubernetesContextsResult } from '../types/protocol';
+import {
+    KubernetesObjectClient,
+    KubernetesObjectMetadata,
+    KubernetesObjectProvider,
+    KubernetesResourceMap,
+    KubernetesServedVersion
+} from '../utils/kubernetes';
 
 interface RawKubernetesResourceInfo {
     list: V1APIResourceList;
     groupVersion: string;
 }
 
-export class KubernetsApiService {
+interface OpenApiV3Discovery {
+    paths: { [groupVersionPath: string]: { serverRelativeURL: string } };
+}
+
+interface OpenApiV3Document {
+    components?: { schemas?: JSONSchemaMap };
+}
+
+interface OpenApiV2Document {
+    definitions?: JSONSchemaMap;
+}
+
+interface KubernetesObjectList {
+    items: { metadata?: k8s.V1ObjectMeta }[];
+}
+
+interface CachedObjects {
+    objects: Promise<KubernetesObjectMetadata[]>;
+    //set as soon as the objects are listed, empty if they could not be listed
+    listedObjects?: KubernetesObjectMetadata[];
+    time: number;
+}
+
+export class KubernetsApiService implements KubernetesObjectProvider, KubernetesObjectClient {
     private initialized = false;
     private started = false;
     private axiosClient: AxiosInstance;
     private kubeConf: k8s.KubeConfig;
     private abortController: AbortController | undefined;
     private currentCluster: k8s.Cluster | null;
-    private resourceInfo: Map<string, string>;
+    private resourceInfo: KubernetesResourceMap;
+    private customResourceSchemas: JSONSchema[];
+    private serverVersion: string | undefined;
+    //listed objects by their api path
+    private objects: Map<string, CachedObjects>;
+    private cacheTimeout: number;
+    private refreshTimeout: NodeJS.Timeout | undefined;
+    private eventManager: EventManager;
     private static readonly SUPPORTED_VERSION = 'v1';
+    private static readonly DEFAULT_NAMESPACE = 'default';
+    //only request the metadata of listed objects, e.g. without the data of secrets
+    private static readonly METADATA_LIST_ACCEPT_HEADER =
+        'application/json;as=PartialObjectMetadataList;v=v1;g=meta.k8s.io,application/json';
+    private static readonly APPLY_PATCH_CONTENT_TYPE = 'application/apply-patch+yaml';
+    private static readonly RESOURCES_CHANGED_EVENT_NAME = 'onResourcesChanged';
+    private static readonly CUSTOM_RESOURCE_DEFINITIONS_PATH =
+        '/apis/apiextensions.k8s.io/v1/customresourcedefinitions';
+    private static readonly OPENAPI_V3_PATH = '/openapi/v3';
+    private static readonly OPENAPI_V2_PATH = '/openapi/v2';
+    private static readonly OBJECT_META_REF = `${YamlSchemaRequestService.KUBERNETES_DEFINITIONS_FILE}#/definitions/io.k8s.apimachinery.pkg.apis.meta.v1.ObjectMeta`;
 
     constructor(settings: YamlKubernetesCompletionSettings) {
-        this.kubeConf = new k8s.KubeConfig();
         this.resourceInfo = new Map();
+        this.customResourceSchemas = [];
+        this.objects = new Map();
+        this.cacheTimeout = settings.kubectl.cacheTimeout;
+        this.eventManager = new EventManager();
 
         //load config
-        const configFilePath = settings.kubectl.configFilePath;
-        if (configFilePath.length === 0) {
-            this.kubeConf.loadFromDefault();
-        } else {
-            this.kubeConf.loadFromFile(configFilePath);
-        }
+        this.kubeConf = KubernetsApiService.loadKubeConfig(settings);
 
         const options: request.Options = {
             url: ''
         };
         this.kubeConf.applyToRequest(options);
+        this.currentCluster = this.kubeConf.getCurrentCluster();
         this.axiosClient = axios.create({
             httpsAgent: new https.Agent({
-                rejectUnauthorized: false,
+                //the credentials of the kubeconfig are only sent to verified servers, unless the cluster skips the verification
+                rejectUnauthorized: !this.currentCluster?.skipTLSVerify,
                 ca: options.ca,
                 cert: options.cert,
                 key: options.key
             })
         });
-        this.currentCluster = this.kubeConf.getCurrentCluster();
+    }
+
+    //list the contexts of the config file, a pinned context which does not exist anymore is returned as well
+    public static getContexts(settings: YamlKubernetesCompletionSettings): KubernetesContextsResult {
+        const kubeConf = KubernetsApiService.loadKubeConfigFile(settings);
+        const pinnedContext = settings.kubectl.context;
+        return {
+            contexts: kubeConf.getContexts().map((context) => ({
+                name: context.name,
+                cluster: context.cluster,
+                namespace: context.namespace
+            })),
+            currentContext:
+                pinnedContext && kubeConf.getContextObject(pinnedContext)
+                    ? pinnedContext
+                    : kubeConf.getCurrentContext(),
+            pinnedContext: pinnedContext
+        };
+    }
+
+    private static loadKubeConfig(settings: YamlKubernetesCompletionSettings): k8s.KubeConfig {
+        const kubeConf = KubernetsApiService.loadKubeConfigFile(settings);
+
+        //a pinned context overrides the current context of the config file
+        const context = settings.kubectl.context;
+        if (context.length !== 0) {
+            if (!kubeConf.getContextObject(context)) {
+                throw new Error(`Context ${context} does not exist in the kubernetes config`);
+            }
+            kubeConf.setCurrentContext(context);
+        }
+        return kubeConf;
+    }
+
+    private static loadKubeConfigFile(settings: YamlKubernetesCompletionSettings): k8s.KubeConfig {
+        const kubeConf = new k8s.KubeConfig();
+        const configFilePath = settings.kubectl.configFilePath;
+        if (configFilePath.length === 0) {
+            kubeConf.loadFromDefault();
+        } else {
+            kubeConf.loadFromFile(configFilePath);
+        }
+        return kubeConf;
     }
 
     public start(): Promise<void> {
         if (this.started) {
             return Promise.reject();
         }
-        return this.fetchKindList().then(() => {
+        this.started = true;
+        return this.fetchResources().then(() => {
             this.initialized = true;
+            this.scheduleRefresh();
         });
     }
 
@@ -61,19 +164,259 @@ export class KubernetsApiService {
         if (!this.started) {
             return;
         }
+        this.started = false;
+        clearTimeout(this.refreshTimeout);
         if (this.abortController) {
             this.abortController.abort();
         }
     }
 
+    public onResourcesChanged(callback: () => void) {
+        this.eventManager.subscribe<void>(KubernetsApiService.RESOURCES_CHANGED_EVENT_NAME, callback);
+    }
+
     public isInitialized(): boolean {
         return this.initialized;
     }
 
-    public getResourceInfo(): Map<string, string> {
+    public getResourceInfo(): KubernetesResourceMap {
         return this.resourceInfo;
     }
 
+    public getCustomResourceSchemas(): JSONSchema[] {
+        return this.customResourceSchemas;
+    }
+
+    public getServerVersion(): string | undefined {
+        return this.serverVersion;
+    }
+
+    public getContextName(): string {
+        return this.kubeConf.getCurrentContext();
+    }
+
+    public getClusterServer(): string | undefined {
+        return this.currentCluster?.server;
+    }
+
+    public getDefaultNamespace(): string {
+        const context = this.kubeConf.getContextObject(this.kubeConf.getCurrentContext());
+        return context?.namespace || KubernetsApiService.DEFAULT_NAMESPACE;
+    }
+
+    //list the objects of a kind, the objects are cached until the cache timeout expires
+    public listObjects(kind: string, namespace?: string): Promise<KubernetesObjectMetadata[]> {
+        const cachedObjects = this.getCachedObjects(kind, namespace);
+        return cachedObjects ? cachedObjects.objects : Promise.reject(`Kind ${kind} can not be listed`);
+    }
+
+    //list the objects of a kind in all namespaces, e.g. to pick one of them
+    public listObjectsOfAllNamespaces(kind: string): Promise<KubernetesObjectMetadata[]> {
+        const cachedObjects = this.getCachedObjects(kind, undefined, true);
+        return cachedObjects ? cachedObjects.objects : Promise.reject(`Kind ${kind} can not be listed`);
+    }
+
+    public getListedObjects(kind: string, namespace?: string): KubernetesObjectMetadata[] | undefined {
+        const cachedObjects = this.getCachedObjects(kind, namespace);
+        return cachedObjects ? cachedObjects.listedObjects : [];
+    }
+
+    private getCachedObjects(
+        kind: string,
+        namespace: string | undefined,
+        allNamespaces = false
+    ): CachedObjects | undefined {
+        const servedVersion = this.resourceInfo.get(kind)?.find((version) => version.verbs.includes('list'));
+        if (!servedVersion) {
+            return undefined;
+        }
+        const path = KubernetsApiService.getResourcePath(
+            servedVersion,
+            allNamespaces ? undefined : namespace || this.getDefaultNamespace()
+        );
+        const cachedObjects = this.objects.get(path);
+        if (cachedObjects && !this.isExpired(cachedObjects.time)) {
+            return cachedObjects;
+        }
+
+        const newCachedObjects: CachedObjects = { objects: Promise.resolve([]), time: Date.now() };
+        newCachedObjects.objects = this.getFromCluster<KubernetesObjectList>(path, {
+            Accept: KubernetsApiService.METADATA_LIST_ACCEPT_HEADER
+        }).then(
+            (list) => {
+                newCachedObjects.listedObjects = list.items.map((item) => ({
+                    name: item.metadata?.name || '',
+                    namespace: item.metadata?.namespace,
+                    labels: item.metadata?.labels || {}
+                }));
+                return newCachedObjects.listedObjects;
+            },
+            (error) => {
+                newCachedObjects.listedObjects = [];
+                return Promise.reject(error);
+            }
+        );
+        //the objects might only be requested for completion, which does not wait for them
+        newCachedObjects.objects.catch((error) => console.error(error));
+        //failed requests are cached as well, e.g. to not request forbidden secrets on every validation
+        this.objects.set(path, newCachedObjects);
+        return newCachedObjects;
+    }
+
+    public async getObject(object: k8s.KubernetesObject): Promise<k8s.KubernetesObject | undefined> {
+        try {
+            return await this.getFromCluster<k8s.KubernetesObject>(this.getObjectPath(object));
+        } catch (error) {
+            if (KubernetsApiService.getErrorStatus(error)?.code === 404) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    //apply an object by server-side apply, on a dry run the api server only validates and admits the object
+    public async applyObject(
+        object: k8s.KubernetesObject,
+        fieldManager: string,
+        dryRun: boolean
+    ): Promise<k8s.KubernetesObject> {
+        const query = new URLSearchParams({ fieldManager: fieldManager });
+        if (dryRun) {
+            query.set('dryRun', 'All');
+        }
+        //json is valid yaml, so the object does not need to be converted
+        const appliedObject = await this.sendToCluster<k8s.KubernetesObject>({
+            method: 'patch',
+            url: `${this.getObjectPath(object)}?${query}`,
+            data: object,
+            headers: { 'Content-Type': KubernetsApiService.APPLY_PATCH_CONTENT_TYPE }
+        });
+        if (!dryRun) {
+            this.forgetObjects(object.kind);
+        }
+        return appliedObject;
+    }
+
+    //delete the live object of a manifest, false if it does not exist
+    public async deleteObject(object: k8s.KubernetesObject): Promise<boolean> {
+        try {
+            await this.sendToCluster<k8s.V1Status>({ method: 'delete', url: this.getObjectPath(object) });
+        } catch (error) {
+            if (KubernetsApiService.getErrorStatus(error)?.code === 404) {
+                return false;
+            }
+            throw error;
+        }
+        this.forgetObjects(object.kind);
+        return true;
+    }
+
+    //listed objects of a changed kind are requested again on their next use
+    private forgetObjects(kind: string | undefined): void {
+        const names = this.resourceInfo.get(kind || '')?.map((version) => version.name) || [];
+        for (const path of this.objects.keys()) {
+            if (names.some((name) => path.endsWith(`/${name}`))) {
+                this.objects.delete(path);
+            }
+        }
+    }
+
+    //status returned by the api server for a failed request, e.g. with the invalid fields of an object
+    public static getErrorStatus(error: unknown): k8s.V1Status | undefined {
+        if (axios.isAxiosError(error) && error.response?.data?.kind === 'Status') {
+            return error.response.data;
+        }
+        return undefined;
+    }
+
+    private getObjectPath(object: k8s.KubernetesObject): string {
+        const servedVersion = this.resourceInfo
+            .get(object.kind || '')
+            ?.find((version) => version.groupVersion === object.apiVersion);
+        const name = object.metadata?.name;
+        if (!servedVersion) {
+            throw new Error(`Kind ${object.kind} is not served by ${object.apiVersion}`);
+        }
+        if (!name) {
+            throw new Error(`${object.kind} has no name`);
+        }
+        const namespace = object.metadata?.namespace || this.getDefaultNamespace();
+        return `${KubernetsApiService.getResourcePath(servedVersion, namespace)}/${encodeURIComponent(name)}`;
+    }
+
+    private isExpired(time: number): boolean {
+        return this.cacheTimeout > 0 && Date.now() - time > this.cacheTimeout * 1000;
+    }
+
+    //path of the resources in the namespace, namespaced resources of all namespaces if it is not set
+    private static getResourcePath(servedVersion: KubernetesServedVersion, namespace: string | undefined): string {
+        //the core group is served at /api, all other groups at /apis
+        const groupVersionPath = servedVersion.groupVersion.includes('/')
+            ? `/apis/${servedVersion.groupVersion}`
+            : `/api/${servedVersion.groupVersion}`;
+        const namespacePath =
+            servedVersion.namespaced && namespace ? `/namespaces/${encodeURIComponent(namespace)}` : '';
+        return `${groupVersionPath}${namespacePath}/${servedVersion.name}`;
+    }
+
+    //get schema definitions of all kinds served by the cluster, prefer openapi v3 and fall back to v2
+    public getOpenApiDefinitions(): Promise<JSONSchemaMap> {
+        return this.getOpenApiV3Definitions().catch((error) => {
+            console.error(`Unable to load openapi v3 document, falling back to v2: ${error}`);
+            return this.getOpenApiV2Definitions();
+        });
+    }
+
+    private getFromCluster<T>(path: string, headers?: AxiosRequestConfig['headers']): Promise<T> {
+        return this.sendToCluster<T>({ method: 'get', url: path, headers: headers });
+    }
+
+    private async sendToCluster<T>(config: AxiosRequestConfig): Promise<T> {
+        if (this.currentCluster) {
+            const options: AxiosRequestConfig = {
+                ...config,
+                url: `${this.currentCluster.server}${config.url}`,
+                signal: this.abortController?.signal,
+                headers: { ...(await this.getAuthorizationHeaders()), ...config.headers }
+            };
+            const res = await this.axiosClient.request<T>(options);
+            return res.data;
+        }
+        return Promise.reject('kubernetes cluster is not defined');
+    }
+
+    //tokens of the kubeconfig user, e.g. of an exec plugin, might be refreshed for every request
+    private async getAuthorizationHeaders(): Promise<AxiosRequestConfig['headers']> {
+        const options: request.Options = {
+            url: ''
+        };
+        await this.kubeConf.applyToRequest(options);
+        return options.headers;
+    }
+
+    private async getOpenApiV3Definitions(): Promise<JSONSchemaMap> {
+        const discovery = await this.getFromCluster<OpenApiV3Discovery>(KubernetsApiService.OPENAPI_V3_PATH);
+        const documents = await Promise.all(
+            Object.values(discovery.paths).map((groupVersionPath) =>
+                this.getFromCluster<OpenApiV3Document>(groupVersionPath.serverRelativeURL)
+            )
+        );
+        const definitions: JSONSchemaMap = {};
+        for (const document of documents) {
+            Object.assign(definitions, document.components?.schemas);
+        }
+        //openapi v3 keeps its schemas in components => rewrite references to the json schema definitions
+        return JSON.parse(JSON.stringify(definitions).replace(/#\/components\/schemas\//g, '#/definitions/'));
+    }
+
+    private async getOpenApiV2Definitions(): Promise<JSONSchemaMap> {
+        const document = await this.getFromCluster<OpenApiV2Document>(KubernetsApiService.OPENAPI_V2_PATH);
+        if (!document.definitions) {
+            return Promise.reject('openapi document of the cluster does not contain definitions');
+        }
+        return document.definitions;
+    }
+
     private async getApisApiGroups(): Promise<k8s.V1APIGroup[]> {
         const apisApiClient = this.kubeConf.makeApiClient(k8s.ApisApi);
         const res = await apisApiClient.getAPIVersions();
@@ -115,27 +458,154 @@ export class KubernetsApiService {
         };
     }
 
-    private collectResourceInfo(rawResourceInfo: RawKubernetesResourceInfo): void {
+    private collectResourceInfo(rawResourceInfo: RawKubernetesResourceInfo, resourceInfo: KubernetesResourceMap): void {
         for (const resource of rawResourceInfo.list.resources) {
+            //subresources like "pods/status" share the kind of their resource
+            if (resource.name.includes('/')) {
+                continue;
+            }
             const kind = resource.kind;
-            if (!this.resourceInfo.has(kind)) {
-                this.resourceInfo.set(kind, rawResourceInfo.groupVersion);
+            const servedVersions = resourceInfo.get(kind) || [];
+            if (!servedVersions.some((version) => version.groupVersion === rawResourceInfo.groupVersion)) {
+                servedVersions.push({
+                    groupVersion: rawResourceInfo.groupVersion,
+                    name: resource.name,
+                    namespaced: resource.namespaced,
+                    verbs: resource.verbs,
+                    shortNames: resource.shortNames || []
+                });
+            }
+            resourceInfo.set(kind, servedVersions);
+        }
+    }
+
+    private async getCustomResourceDefinitions(): Promise<V1CustomResourceDefinition[]> {
+        const list = await this.getFromCluster<V1CustomResourceDefinitionList>(
+            KubernetsApiService.CUSTOM_RESOURCE_DEFINITIONS_PATH
+        );
+        return list.items;
+    }
+
+    private collectCustomResourceSchemas(crd: V1CustomResourceDefinition, schemas: JSONSchema[]): void {
+        const group = crd.spec.group;
+        const kind = crd.spec.names.kind;
+
+        for (const version of crd.spec.versions) {
+            const openApiSchema = version.schema?.openAPIV3Schema;
+            if (!version.served || !openApiSchema) {
+                continue;
+            }
+            //copy schema, because the json schema service resolves schemas in place
+            const schema: JSONSchema = JSON.parse(JSON.stringify(openApiSchema));
+            schema.type = 'object';
+            schema.properties = schema.properties || {};
+            //every custom resource has the type fields, even if its definition does not declare them
+            for (const property of ['apiVersion', 'kind']) {
+                schema.properties[property] = schema.properties[property] || { type: 'string' };
+            }
+            //custom resource definitions only declare metadata as object => use schema of the built-in kinds
+            const metadata = schema.properties['metadata'];
+            schema.properties['metadata'] = {
+                ...(typeof metadata === 'object' ? metadata : {}),
+                $ref: KubernetsApiService.OBJECT_META_REF
+            };
+            schema['x-kubernetes-group-version-kind'] = [{ group: group, kind: kind, version: version.name }];
+            schemas.push(schema);
+        }
+    }
+
+    //discover the resources of the cluster, they are only replaced once the discovery succeeded
+    private async fetchResources(): Promise<boolean> {
+        const [resourceInfo, customResourceSchemas, serverVersion] = await Promise.all([
+            this.fetchKindList(),
+            this.fetchCustomResourceSchemas(),
+            this.fetchServerVersion()
+        ]);
+        const changed =
+            MapUtils.isDifferent(this.resourceInfo, resourceInfo) ||
+            !equals(this.customResourceSchemas, customResourceSchemas) ||
+            this.serverVersion !== serverVersion;
+        this.resourceInfo = resourceInfo;
+        this.customResourceSchemas = customResourceSchemas;
+        this.serverVersion = serverVersion;
+        return changed;
+    }
+
+    private fetchServerVersion(): Promise<string | undefined> {
+        const versionApiClient = this.kubeConf.makeApiClient(k8s.VersionApi);
+        return versionApiClient.getCode().then(
+            (res) => res.body.gitVersion,
+            (error) => {
+                //the server version is only used to check for deprecated apis
+                console.error(error);
+                return this.serverVersion;
             }
+        );
+    }
+
+    private scheduleRefresh(): void {
+        if (this.started && this.cacheTimeout > 0) {
+            this.refreshTimeout = setTimeout(this.refresh.bind(this), this.cacheTimeout * 1000);
         }
     }
 
-    private fetchKindList(): Promise<void> {
+    //fetch resources again and notify subscribers only if the resources of the cluster have changed
+    private async refresh(): Promise<void> {
+        let changed = false;
+        try {
+            changed = await this.fetchResources();
+        } catch (error) {
+            //keep the last known resources if the cluster is not reachable right now
+            console.error(error);
+        }
+
+        if (!this.started) {
+            return;
+        }
+        if (changed) {
+            this.eventManager.publish<void>(KubernetsApiService.RESOURCES_CHANGED_EVENT_NAME, undefined);
+        }
+        this.scheduleRefresh();
+    }
+
+    private fetchCustomResourceSchemas(): Promise<JSONSchema[]> {
+        return this.getCustomResourceDefinitions().then(
+            (crds) => {
+                const schemas: JSONSchema[] = [];
+                for (const crd of crds) {
+                    this.collectCustomResourceSchemas(crd, schemas);
+                }
+                return schemas;
+            },
+            (error) => {
+                //custom resources are optional => e.g. user might not be allowed to list them
+                console.error(error);
+                return this.customResourceSchemas;
+            }
+        );
+    }
+
+    private fetchKindList(): Promise<KubernetesResourceMap> {
         this.abortController = new AbortController();
+        const resourceInfo: KubernetesResourceMap = new Map();
 
         const promisesToFulFil: Promise<any>[] = [];
-        const promisesToSettle: Promise<RawKubernetesResourceInfo>[] = [];
+        //keep core and group resources apart to collect them in the same order on every refresh
+        const corePromisesToSettle: Promise<RawKubernetesResourceInfo>[] = [];
+        const groupPromisesToSettle: Promise<RawKubernetesResourceInfo>[] = [];
 
         try {
             promisesToFulFil.push(
                 this.getApisApiGroups().then((groups) => {
                     for (const group of groups) {
-                        const usedVersion = group.preferredVersion ? group.preferredVersion : group.versions[0];
-                        promisesToSettle.push(this.getResourcesForApisApiGroups(usedVersion));
+                        //fetch every served version, the preferred version first
+                        const preferredVersion = group.preferredVersion ? group.preferredVersion : group.versions[0];
+                        const otherVersions = group.versions.filter(
+                            (version) => version.groupVersion !== preferredVersion.groupVersion
+                        );
+                        for (const version of [preferredVersion, ...otherVersions]) {
+                            groupPromisesToSettle.push(this.getResourcesForApisApiGroups(version));
+                        }
                     }
                 })
             );
@@ -143,7 +613,7 @@ export class KubernetsApiService {
             promisesToFulFil.push(
                 this.getCoreApiVersions().then((versions) => {
                     if (versions.includes(KubernetsApiService.SUPPORTED_VERSION)) {
-                        promisesToSettle.push(this.getCoreApiV1Resources());
+                        corePromisesToSettle.push(this.getCoreApiV1Resources());
                     } else {
                         Promise.reject(`Only supported api version is ${KubernetsApiService.SUPPORTED_VERSION}!`);
                     }
@@ -151,14 +621,15 @@ export class KubernetsApiService {
             );
 
             return Promise.all(promisesToFulFil).then(async () => {
-                const promiseResults = await Promise.allSettled(promisesToSettle);
+                const promiseResults = await Promise.allSettled([...corePromisesToSettle, ...groupPromisesToSettle]);
                 for (const promiseResult of promiseResults) {
                     if (promiseResult.status === 'fulfilled') {
-                        this.collectResourceInfo(promiseResult.value);
+                        this.collectResourceInfo(promiseResult.value, resourceInfo);
                     } /* else {
                         Promise.reject(promiseResult.reason);
                     } */
                 }
+                return resourceInfo;
             });
         } catch (ex: any) {
             return Promise.reject(ex);
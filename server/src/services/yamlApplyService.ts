@@ -0,0 +1,275 @@
+import { ASTNode, ObjectASTNode } from 'vscode-json-languageservice';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as l10n from '@vscode/l10n';
+import { KubernetesObject } from '@kubernetes/client-node';
+import { YamlDocument } from '../parser/yamlDocument';
+import { KubernetesResourceResult } from '../types/protocol';
+import { KubernetesObjectClient } from '../utils/kubernetes';
+import { ValidationUtil } from '../utils/validation';
+import { KubernetsApiService } from './kubernetesApiService';
+
+//cluster a resource is sent to, undefined if the cluster is not available
+export type KubernetesObjectClientResolver = (yamlDocument: YamlDocument) => KubernetesObjectClient | undefined;
+
+export interface KubernetesApplyOutcome {
+    resources: KubernetesResourceResult[];
+    //problems of the resources which were rejected by the api server
+    diagnostics: Diagnostic[];
+}
+
+export class YamlApplyService {
+    //sources of the problems reported by the api server, to filter them apart from the schema validation
+    public static readonly DRY_RUN_DIAGNOSTIC_SOURCE = 'kubernetes-dry-run';
+    public static readonly APPLY_DIAGNOSTIC_SOURCE = 'kubernetes-apply';
+    //segments of field paths like "spec.containers[0].image" or "metadata.labels[app.kubernetes.io/name]"
+    private static readonly FIELD_PATH_SEGMENT = /\[([^\]]*)\]|([^.[\]]+)/g;
+
+    //send every resource of the document as dry run to its cluster and report the problems of the rejected fields
+    public async doDryRun(
+        textDocument: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver,
+        fieldManager: string
+    ): Promise<Diagnostic[]> {
+        const diagnostics = await Promise.all(
+            yamlDocuments.map((yamlDocument) =>
+                this.dryRunResource(textDocument, yamlDocument, getObjectClient(yamlDocument), fieldManager)
+            )
+        );
+        return diagnostics.flat();
+    }
+
+    private async dryRunResource(
+        textDocument: TextDocument,
+        yamlDocument: YamlDocument,
+        objectClient: KubernetesObjectClient | undefined,
+        fieldManager: string
+    ): Promise<Diagnostic[]> {
+        const root = yamlDocument.root;
+        //documents with syntax errors are not sent, their content is not what the user sees
+        if (!root || root.type !== 'object' || yamlDocument.syntaxErrors.length) {
+            return [];
+        }
+        if (!objectClient) {
+            return [
+                this.createDiagnostic(
+                    textDocument,
+                    this.getResourceNode(root),
+                    l10n.t('The cluster of the resource is not available.'),
+                    DiagnosticSeverity.Warning
+                )
+            ];
+        }
+
+        try {
+            await objectClient.applyObject(ValidationUtil.getNodeValue(root), fieldManager, true);
+            return [];
+        } catch (error) {
+            return this.getErrorDiagnostics(
+                textDocument,
+                root,
+                error,
+                l10n.t('Dry run failed: {0}', String(error)),
+                YamlApplyService.DRY_RUN_DIAGNOSTIC_SOURCE
+            );
+        }
+    }
+
+    //apply the resources of the document one after another, so namespaces come before the resources they contain
+    public async doApply(
+        textDocument: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver,
+        fieldManager: string
+    ): Promise<KubernetesApplyOutcome> {
+        return this.changeResources(textDocument, yamlDocuments, getObjectClient, async (object, objectClient) => {
+            const liveObject = await objectClient.getObject(object);
+            const appliedObject = await objectClient.applyObject(object, fieldManager, false);
+            if (!liveObject) {
+                return 'created';
+            }
+            //the resource version only changes if the object was modified
+            return liveObject.metadata?.resourceVersion === appliedObject.metadata?.resourceVersion
+                ? 'unchanged'
+                : 'configured';
+        });
+    }
+
+    public async doDelete(
+        textDocument: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver
+    ): Promise<KubernetesApplyOutcome> {
+        return this.changeResources(textDocument, yamlDocuments, getObjectClient, async (object, objectClient) =>
+            (await objectClient.deleteObject(object)) ? 'deleted' : 'notFound'
+        );
+    }
+
+    private async changeResources(
+        textDocument: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver,
+        change: (
+            object: KubernetesObject,
+            objectClient: KubernetesObjectClient
+        ) => Promise<KubernetesResourceResult['action']>
+    ): Promise<KubernetesApplyOutcome> {
+        const outcome: KubernetesApplyOutcome = { resources: [], diagnostics: [] };
+        for (const yamlDocument of yamlDocuments) {
+            const root = yamlDocument.root;
+            if (!root || root.type !== 'object') {
+                continue;
+            }
+            const object: KubernetesObject = ValidationUtil.getNodeValue(root);
+            const resource = `${object.kind}/${object.metadata?.name}`;
+            //the schema validation reports the syntax errors already
+            if (yamlDocument.syntaxErrors.length) {
+                outcome.resources.push({ resource: resource, error: l10n.t('The resource has syntax errors.') });
+                continue;
+            }
+            const objectClient = getObjectClient(yamlDocument);
+            if (!objectClient) {
+                const message = l10n.t('The cluster of the resource is not available.');
+                outcome.resources.push({ resource: resource, error: message });
+                outcome.diagnostics.push(
+                    this.createDiagnostic(
+                        textDocument,
+                        this.getResourceNode(root),
+                        message,
+                        DiagnosticSeverity.Error,
+                        undefined,
+                        YamlApplyService.APPLY_DIAGNOSTIC_SOURCE
+                    )
+                );
+                continue;
+            }
+
+            try {
+                outcome.resources.push({ resource: resource, action: await change(object, objectClient) });
+            } catch (error) {
+                const status = KubernetsApiService.getErrorStatus(error);
+                outcome.resources.push({ resource: resource, error: status?.message || String(error) });
+                outcome.diagnostics.push(
+                    ...this.getErrorDiagnostics(
+                        textDocument,
+                        root,
+                        error,
+                        String(error),
+                        YamlApplyService.APPLY_DIAGNOSTIC_SOURCE
+                    )
+                );
+            }
+        }
+        return outcome;
+    }
+
+    //locate the causes of a rejected request at the fields of the resource
+    private getErrorDiagnostics(
+        textDocument: TextDocument,
+        root: ObjectASTNode,
+        error: unknown,
+        failureMessage: string,
+        source: string
+    ): Diagnostic[] {
+        const status = KubernetsApiService.getErrorStatus(error);
+        if (!status) {
+            return [
+                this.createDiagnostic(
+                    textDocument,
+                    this.getResourceNode(root),
+                    failureMessage,
+                    DiagnosticSeverity.Error,
+                    undefined,
+                    source
+                )
+            ];
+        }
+
+        const causes = status.details?.causes || [];
+        if (!causes.length) {
+            return [
+                this.createDiagnostic(
+                    textDocument,
+                    this.getResourceNode(root),
+                    status.message || status.reason || String(error),
+                    DiagnosticSeverity.Error,
+                    status.reason,
+                    source
+                )
+            ];
+        }
+        return causes.map((cause) => {
+            const field = cause.field ? this.getFieldNode(root, cause.field) : undefined;
+            //name the field if it is not part of the document, e.g. a missing required field
+            const message =
+                cause.field && !field?.complete
+                    ? `${cause.field}: ${cause.message}`
+                    : cause.message || cause.reason || '';
+            return this.createDiagnostic(
+                textDocument,
+                field && field.node !== root ? field.node : this.getResourceNode(root),
+                message,
+                DiagnosticSeverity.Error,
+                cause.reason || status.reason,
+                source
+            );
+        });
+    }
+
+    //find the node of a field path or of its last parent which exists in the document
+    private getFieldNode(root: ObjectASTNode, field: string): { node: ASTNode; complete: boolean } {
+        let current: ASTNode = root;
+        for (const match of field.matchAll(YamlApplyService.FIELD_PATH_SEGMENT)) {
+            const segment = match[1] ?? match[2];
+            let next: ASTNode | undefined = undefined;
+            if (current.type === 'object') {
+                next = current.properties.find((property) => property.keyNode.value === segment)?.valueNode;
+            } else if (current.type === 'array' && /^\d+$/.test(segment)) {
+                next = current.items[Number(segment)];
+            }
+            if (!next) {
+                return { node: this.getMarkedNode(current), complete: false };
+            }
+            current = next;
+        }
+        return { node: this.getMarkedNode(current), complete: true };
+    }
+
+    //mark the key of objects and sequences instead of their whole content
+    private getMarkedNode(node: ASTNode): ASTNode {
+        if ((node.type === 'object' || node.type === 'array') && node.parent?.type === 'property') {
+            return node.parent.keyNode;
+        }
+        return node;
+    }
+
+    //problems of the whole resource are located at its name
+    private getResourceNode(root: ObjectASTNode): ASTNode {
+        for (const field of ['metadata.name', 'kind']) {
+            const { node, complete } = this.getFieldNode(root, field);
+            if (complete) {
+                return node;
+            }
+        }
+        return root;
+    }
+
+    private createDiagnostic(
+        textDocument: TextDocument,
+        node: ASTNode,
+        message: string,
+        severity: DiagnosticSeverity,
+        code?: string,
+        source = YamlApplyService.DRY_RUN_DIAGNOSTIC_SOURCE
+    ): Diagnostic {
+        //value nodes start with the whitespace after the colon and collections end with the line break
+        const nodeText = textDocument.getText().substring(node.offset, node.offset + node.length);
+        const start = node.offset + nodeText.length - nodeText.trimStart().length;
+        const range = Range.create(
+            textDocument.positionAt(start),
+            textDocument.positionAt(start + nodeText.trim().length)
+        );
+        return Diagnostic.create(range, message, severity, code, source);
+    }
+}
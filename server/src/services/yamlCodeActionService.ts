@@ -0,0 +1,275 @@
+import { ASTNode, ErrorCode, ObjectASTNode } from 'vscode-json-languageservice';
+import { CodeAction, CodeActionKind, Diagnostic, Position, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { stringify } from 'yaml';
+import { YamlDocument } from '../parser/yamlDocument';
+import { JSONSchema } from '../types/jsonSchema';
+import { ProblemCode, ProblemData } from '../validation/validationResult';
+import { JSONSchemaService } from './jsonSchemaService';
+
+export class YamlCodeActionService {
+    constructor(private schemaService: JSONSchemaService) {}
+
+    public doCodeActions(document: TextDocument, diagnostics: Diagnostic[], doc: YamlDocument): Thenable<CodeAction[]> {
+        const codeActions: CodeAction[] = [];
+        const missingPropertyDiagnostics: Diagnostic[] = [];
+
+        for (const diagnostic of diagnostics) {
+            const data = <ProblemData | undefined>diagnostic.data;
+            if (!data) {
+                continue;
+            }
+            switch (diagnostic.code) {
+                case ProblemCode.MissingProperty:
+                    missingPropertyDiagnostics.push(diagnostic);
+                    break;
+                case ProblemCode.PropertyNotAllowed:
+                    codeActions.push(...this.getPropertyNotAllowedActions(document, doc, diagnostic, data));
+                    break;
+                case ErrorCode.EnumValueMismatch:
+                    codeActions.push(...this.getEnumValueActions(document, diagnostic, data));
+                    break;
+                case ProblemCode.DeprecatedApiVersion:
+                case ProblemCode.RemovedApiVersion:
+                    if (data.replacement) {
+                        codeActions.push(
+                            this.createQuickFix(
+                                `Migrate to apiVersion ${data.replacement}`,
+                                document,
+                                [this.getScalarEdit(document, diagnostic.range, data.replacement)],
+                                diagnostic,
+                                true
+                            )
+                        );
+                    }
+                    break;
+            }
+        }
+
+        if (!missingPropertyDiagnostics.length) {
+            return Promise.resolve(codeActions);
+        }
+        return this.schemaService.getSchemaForResource(document.uri, doc).then((schema) => {
+            if (schema) {
+                codeActions.push(
+                    ...this.getMissingPropertyActions(document, doc, schema.schema, missingPropertyDiagnostics)
+                );
+            }
+            return codeActions;
+        });
+    }
+
+    private getMissingPropertyActions(
+        document: TextDocument,
+        doc: YamlDocument,
+        schema: JSONSchema,
+        diagnostics: Diagnostic[]
+    ): CodeAction[] {
+        const codeActions: CodeAction[] = [];
+        //collect missing properties per object to offer inserting all of them at once
+        const missingProperties = new Map<ObjectASTNode, { diagnostics: Diagnostic[]; lines: string[] }>();
+
+        for (const diagnostic of diagnostics) {
+            const property = (<ProblemData>diagnostic.data).property;
+            const objectNode = this.getObjectNodeOfProblem(document, doc, diagnostic.range);
+            if (
+                !property ||
+                !objectNode ||
+                !objectNode.properties.length ||
+                this.isFlowCollection(document, objectNode)
+            ) {
+                continue;
+            }
+            const propertySchema = this.getPropertySchema(doc, schema, objectNode, property);
+            const line = `${property}: ${this.getDefaultValue(propertySchema)}`;
+            const edit = this.getInsertPropertiesEdit(document, objectNode, [line]);
+            codeActions.push(this.createQuickFix(`Add missing property "${property}"`, document, [edit], diagnostic));
+
+            const objectProperties = missingProperties.get(objectNode) || { diagnostics: [], lines: [] };
+            objectProperties.diagnostics.push(diagnostic);
+            objectProperties.lines.push(line);
+            missingProperties.set(objectNode, objectProperties);
+        }
+
+        for (const [objectNode, objectProperties] of missingProperties) {
+            if (objectProperties.lines.length > 1) {
+                const codeAction = this.createQuickFix(
+                    'Add all missing properties',
+                    document,
+                    [this.getInsertPropertiesEdit(document, objectNode, objectProperties.lines)],
+                    objectProperties.diagnostics[0],
+                    true
+                );
+                codeAction.diagnostics = objectProperties.diagnostics;
+                codeActions.push(codeAction);
+            }
+        }
+        return codeActions;
+    }
+
+    private getPropertyNotAllowedActions(
+        document: TextDocument,
+        doc: YamlDocument,
+        diagnostic: Diagnostic,
+        data: ProblemData
+    ): CodeAction[] {
+        const codeActions = (data.suggestions || []).map((suggestion, index) =>
+            this.createQuickFix(
+                `Rename to "${suggestion}"`,
+                document,
+                [this.getScalarEdit(document, diagnostic.range, suggestion)],
+                diagnostic,
+                index === 0
+            )
+        );
+
+        const keyNode = doc.getNodeFromOffset(document.offsetAt(diagnostic.range.start));
+        const propertyNode = keyNode?.parent;
+        if (propertyNode && propertyNode.type === 'property' && propertyNode.keyNode === keyNode) {
+            codeActions.push(
+                this.createQuickFix(
+                    `Remove property "${data.property}"`,
+                    document,
+                    [TextEdit.del(this.getPropertyRemovalRange(document, propertyNode))],
+                    diagnostic
+                )
+            );
+        }
+        return codeActions;
+    }
+
+    private getEnumValueActions(document: TextDocument, diagnostic: Diagnostic, data: ProblemData): CodeAction[] {
+        //only scalar values can replace the value in place
+        const values = [...new Set(data.values || [])].filter((value) => value === null || typeof value !== 'object');
+        return values.map((value) =>
+            this.createQuickFix(
+                `Replace with ${stringify(value).trim()}`,
+                document,
+                [this.getScalarEdit(document, diagnostic.range, value)],
+                diagnostic,
+                values.length === 1
+            )
+        );
+    }
+
+    //replace the text of a scalar without the whitespace the range starts with, quoted strings stay quoted
+    private getScalarEdit(document: TextDocument, range: Range, value: unknown): TextEdit {
+        const text = document.getText(range);
+        const trimmedText = text.trimStart();
+        const start = document.positionAt(document.offsetAt(range.start) + text.length - trimmedText.length);
+        const quote = trimmedText.charAt(0);
+        let newText = stringify(value).trim();
+        if (typeof value === 'string' && quote === '"') {
+            newText = JSON.stringify(value);
+        } else if (typeof value === 'string' && quote === "'") {
+            newText = `'${value.replace(/'/g, "''")}'`;
+        }
+        return TextEdit.replace(Range.create(start, range.end), newText);
+    }
+
+    private createQuickFix(
+        title: string,
+        document: TextDocument,
+        edits: TextEdit[],
+        diagnostic: Diagnostic,
+        isPreferred = false
+    ): CodeAction {
+        const codeAction = CodeAction.create(title, { changes: { [document.uri]: edits } }, CodeActionKind.QuickFix);
+        codeAction.diagnostics = [diagnostic];
+        codeAction.isPreferred = isPreferred;
+        return codeAction;
+    }
+
+    //missing properties are reported at the key of the parent property or at the start of the object
+    private getObjectNodeOfProblem(document: TextDocument, doc: YamlDocument, range: Range): ObjectASTNode | undefined {
+        const offset = document.offsetAt(range.start);
+        const length = document.offsetAt(range.end) - offset;
+        let node: ASTNode | undefined = doc.getNodeFromOffset(offset);
+        while (node) {
+            if (
+                node.type === 'property' &&
+                node.keyNode.offset === offset &&
+                node.keyNode.length === length &&
+                node.valueNode?.type === 'object'
+            ) {
+                return node.valueNode;
+            }
+            if (node.type === 'object' && node.offset === offset) {
+                return node;
+            }
+            node = node.parent;
+        }
+        return undefined;
+    }
+
+    private getPropertySchema(
+        doc: YamlDocument,
+        schema: JSONSchema,
+        objectNode: ObjectASTNode,
+        property: string
+    ): JSONSchema | undefined {
+        for (const matchingSchema of doc.getMatchingSchemas(schema, objectNode.offset)) {
+            const propertySchema = matchingSchema.node === objectNode && matchingSchema.schema.properties?.[property];
+            if (propertySchema && typeof propertySchema === 'object') {
+                return propertySchema;
+            }
+        }
+        return undefined;
+    }
+
+    private getDefaultValue(schema: JSONSchema | undefined): string {
+        if (!schema) {
+            return '';
+        }
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (types.includes('object') || (!schema.type && schema.properties)) {
+            return '{}';
+        } else if (types.includes('array')) {
+            return '[]';
+        } else if (types.includes('string')) {
+            return '""';
+        } else if (types.includes('integer') || types.includes('number')) {
+            return '0';
+        } else if (types.includes('boolean')) {
+            return 'false';
+        }
+        return '';
+    }
+
+    //insert properties after the last property of the object with the indentation of its first property
+    private getInsertPropertiesEdit(document: TextDocument, objectNode: ObjectASTNode, lines: string[]): TextEdit {
+        const indentation = ' '.repeat(document.positionAt(objectNode.properties[0].offset).character);
+        const lastProperty = objectNode.properties[objectNode.properties.length - 1];
+        const lineEnd = this.getLineEnd(document, this.getEndPosition(document, lastProperty).line);
+        return TextEdit.insert(lineEnd, lines.map((line) => `\n${indentation}${line}`).join(''));
+    }
+
+    //remove whole lines unless the property shares its first line with other content, e.g. a sequence item indicator
+    private getPropertyRemovalRange(document: TextDocument, propertyNode: ASTNode): Range {
+        const start = document.positionAt(propertyNode.offset);
+        const end = this.getEndPosition(document, propertyNode);
+        const textBefore = document.getText(Range.create(start.line, 0, start.line, start.character));
+        if (textBefore.trim()) {
+            return Range.create(start, this.getLineEnd(document, end.line));
+        }
+        return Range.create(Position.create(start.line, 0), Position.create(end.line + 1, 0));
+    }
+
+    //position of the last character of the node, block scalars end at the start of the next line
+    private getEndPosition(document: TextDocument, node: ASTNode): Position {
+        const end = document.positionAt(node.offset + node.length);
+        if (end.character === 0 && end.line > 0) {
+            return document.positionAt(node.offset + node.length - 1);
+        }
+        return end;
+    }
+
+    private getLineEnd(document: TextDocument, line: number): Position {
+        const lineText = document.getText(Range.create(line, 0, line + 1, 0));
+        return Position.create(line, lineText.replace(/\r?\n$/, '').length);
+    }
+
+    private isFlowCollection(document: TextDocument, node: ASTNode): boolean {
+        return document.getText().charAt(node.offset) === '{';
+    }
+}
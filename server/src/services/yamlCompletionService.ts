@@ -1,12 +1,31 @@
-import { ASTNode, CompletionItem, CompletionsCollector, ObjectASTNode, TextEdit } from 'vscode-json-languageservice';
+import {
+    ASTNode,
+    CompletionItem,
+    CompletionsCollector,
+    InsertTextFormat,
+    ObjectASTNode,
+    PropertyASTNode,
+    Range,
+    TextEdit
+} from 'vscode-json-languageservice';
 import { JSONSchema, JSONSchemaRef } from 'vscode-json-languageservice/lib/umd/jsonSchema';
-import { CompletionList } from 'vscode-languageserver';
+import { CompletionList, InsertTextMode } from 'vscode-languageserver';
 import { Position, TextDocument } from 'vscode-languageserver-textdocument';
 import { YamlDocument } from '../parser/yamlDocument';
 import { AstUtils } from '../utils/ast';
+import {
+    KubernetesObjectMetadata,
+    KubernetesObjectProvider,
+    KubernetesResourceInfo,
+    KubernetesValidationUtil
+} from '../utils/kubernetes';
+import { ValidationUtil } from '../utils/validation';
+import { SchemaValidator } from '../validation/schemaValidator';
 import { isDefined } from '../utils/objects';
 import { extendedRegExp } from '../utils/strings';
 import { JSONSchemaService, ResolvedSchema } from './jsonSchemaService';
+import { YamlReferenceService } from './yamlReferenceService';
+import { kubernetesClusterScopedKinds, kubernetesNodeSelectorPath } from '../types/kubernetesReferences';
 
 export class CompletionsCollectorImpl implements CompletionsCollector {
     private result: CompletionList;
@@ -39,13 +58,31 @@ export class CompletionsCollectorImpl implements CompletionsCollector {
 }
 
 export class YamlCompletionService {
-    constructor(private schemaService: JSONSchemaService) {}
+    //alias indicator followed by the already typed part of the anchor name
+    private static readonly ALIAS_PREFIX = /(?:^|[\s,[{])\*([^\s,[\]{}]*)$/;
+    //properties of a resource which are either set already or generated separately in a skeleton
+    private static readonly SKELETON_IGNORED_PROPERTIES = ['apiVersion', 'kind', 'metadata', 'status'];
+
+    private indentation = 4;
+    private indentSequences = true;
+
+    constructor(private schemaService: JSONSchemaService, private referenceService: YamlReferenceService) {}
+
+    public configure(indentation: number, indentSequences = true) {
+        this.indentation = indentation;
+        this.indentSequences = indentSequences;
+    }
 
     public doResolve(completionItem: CompletionItem): Promise<CompletionItem> {
         return Promise.resolve(completionItem);
     }
 
-    public doComplete(document: TextDocument, position: Position, doc: YamlDocument): Thenable<CompletionList | null> {
+    public doComplete(
+        document: TextDocument,
+        position: Position,
+        doc: YamlDocument,
+        objectProvider?: KubernetesObjectProvider
+    ): Thenable<CompletionList | null> {
         const completionsCollector: CompletionsCollectorImpl = new CompletionsCollectorImpl();
 
         const isInComment = doc.isInComment(position);
@@ -55,15 +92,30 @@ export class YamlCompletionService {
         }
 
         const offset = document.offsetAt(position);
+
+        //complete anchor names after an alias indicator
+        const aliasPrefix = this.getAliasPrefix(document, position);
+        if (aliasPrefix !== undefined) {
+            this.getAnchorCompletions(doc, offset, aliasPrefix, completionsCollector, position);
+            return Promise.resolve(completionsCollector.getCompletionList());
+        }
+
         const node = doc.getNodeFromOffset(offset, true);
 
         return this.schemaService.getSchemaForResource(document.uri, doc).then((schema) => {
             if (node && schema) {
                 if (node.type === 'object') {
                     this.getPropertyCompletions(node, doc, completionsCollector, schema, position);
+                    if (node === doc.root) {
+                        this.getSkeletonCompletion(node, doc, completionsCollector, schema, position);
+                    }
                 }
 
                 this.getValueCompletions(node, doc, offset, completionsCollector, schema, position);
+                this.getKubernetesValueCompletions(document, node, doc, completionsCollector, schema);
+                if (objectProvider) {
+                    this.getClusterCompletions(document, node, doc, completionsCollector, objectProvider, position);
+                }
             }
 
             return completionsCollector.getCompletionList();
@@ -168,6 +220,186 @@ export class YamlCompletionService {
         }
     }
 
+    //complete the kinds and api versions of the schema, which only contains the resources served by the cluster
+    private getKubernetesValueCompletions(
+        document: TextDocument,
+        node: ASTNode,
+        doc: YamlDocument,
+        completionsCollector: CompletionsCollectorImpl,
+        schema: ResolvedSchema
+    ) {
+        const property = node.parent;
+        const root = doc.root;
+        if (
+            !property ||
+            property.type !== 'property' ||
+            property.valueNode !== node ||
+            !root ||
+            root.type !== 'object' ||
+            property.parent !== root ||
+            !schema.schema.oneOf
+        ) {
+            return;
+        }
+        //lists like PodList are returned by the api server, but not written as manifests
+        const resources = schema.schema.oneOf
+            .map((schemaRef) =>
+                KubernetesValidationUtil.getGroupVersionKindFromSchema(ValidationUtil.asSchema(schemaRef))
+            )
+            .filter((resource): resource is KubernetesResourceInfo => !!resource && !resource.kind.endsWith('List'));
+
+        if (property.keyNode.value === 'kind') {
+            //only offer kinds served by the already typed api version
+            const apiVersion = ValidationUtil.getStringPropertyValue(root, 'apiVersion');
+            const matchingResources = resources.filter((resource) => resource.groupVersion === apiVersion);
+            const kinds = this.groupResources(matchingResources.length ? matchingResources : resources, 'kind');
+
+            for (const [kind, groupVersions] of kinds) {
+                completionsCollector.add({
+                    label: kind,
+                    detail: groupVersions.join(', '),
+                    //add the api version of the kind if it is missing
+                    additionalTextEdits: AstUtils.hasProperty(root, 'apiVersion')
+                        ? undefined
+                        : [TextEdit.insert(document.positionAt(root.offset), `apiVersion: ${groupVersions[0]}\n`)]
+                });
+            }
+        } else if (property.keyNode.value === 'apiVersion') {
+            //only offer api versions serving the already typed kind
+            const kind = ValidationUtil.getStringPropertyValue(root, 'kind');
+            const matchingResources = resources.filter((resource) => resource.kind === kind);
+            const groupVersions = this.groupResources(
+                matchingResources.length ? matchingResources : resources,
+                'groupVersion'
+            );
+
+            for (const [groupVersion, kinds] of groupVersions) {
+                completionsCollector.add({
+                    label: groupVersion,
+                    detail: matchingResources.length ? kinds.join(', ') : undefined
+                });
+            }
+        }
+    }
+
+    //complete names of referenced objects and labels of node selectors from the objects of the cluster
+    private getClusterCompletions(
+        document: TextDocument,
+        node: ASTNode,
+        doc: YamlDocument,
+        completionsCollector: CompletionsCollectorImpl,
+        objectProvider: KubernetesObjectProvider,
+        position: Position
+    ) {
+        const root = doc.root;
+        if (!root || root.type !== 'object') {
+            return;
+        }
+
+        const property = node.parent;
+        //on an empty line of an object or on an already typed key
+        const isKey = property?.type === 'property' && property.keyNode === node;
+        const objectNode = isKey ? property.parent : node;
+        if (objectNode?.type === 'object') {
+            //label keys of a node selector
+            if (objectNode.parent?.type === 'property' && this.isNodeSelector(root, objectNode.parent)) {
+                const nodes = this.getListedObjects(objectProvider, 'Node', undefined, completionsCollector);
+                const range = Range.create(isKey ? document.positionAt(node.offset) : position, position);
+                for (const label of this.getNodeLabels(nodes).keys()) {
+                    if (!AstUtils.hasProperty(objectNode, label)) {
+                        completionsCollector.add({
+                            textEdit: TextEdit.replace(range, label + ': '),
+                            label: label
+                        });
+                    }
+                }
+            }
+            return;
+        }
+
+        if (!property || property.type !== 'property' || property.valueNode !== node) {
+            return;
+        }
+        const selector = property.parent?.parent;
+        if (selector?.type === 'property' && this.isNodeSelector(root, selector)) {
+            //label values of a node selector
+            const nodes = this.getListedObjects(objectProvider, 'Node', undefined, completionsCollector);
+            for (const value of this.getNodeLabels(nodes).get(property.keyNode.value) || []) {
+                completionsCollector.add({
+                    label: value
+                });
+            }
+            return;
+        }
+
+        const kind = this.referenceService.getReferencedKindAtProperty(root, property);
+        if (kind) {
+            //namespaced objects are referenced from the same namespace
+            const metadata = this.referenceService.getNodeAtPath(root, ['metadata']);
+            const namespace =
+                !kubernetesClusterScopedKinds.includes(kind) && metadata?.type === 'object'
+                    ? ValidationUtil.getStringPropertyValue(metadata, 'namespace')
+                    : undefined;
+            const objects = this.getListedObjects(objectProvider, kind, namespace, completionsCollector);
+            for (const object of objects) {
+                completionsCollector.add({
+                    label: object.name,
+                    detail: kind
+                });
+            }
+        }
+    }
+
+    private isNodeSelector(root: ObjectASTNode, property: PropertyASTNode): boolean {
+        const path = this.referenceService.getNodePath(root, property);
+        return (
+            !!path &&
+            YamlReferenceService.matchesPath(path, YamlReferenceService.toPathSegments(kubernetesNodeSelectorPath))
+        );
+    }
+
+    //the completion list is incomplete until the objects are listed, the client requests it again on the next input
+    private getListedObjects(
+        objectProvider: KubernetesObjectProvider,
+        kind: string,
+        namespace: string | undefined,
+        completionsCollector: CompletionsCollectorImpl
+    ): KubernetesObjectMetadata[] {
+        const objects = objectProvider.getListedObjects(kind, namespace);
+        if (!objects) {
+            completionsCollector.setAsIncomplete();
+        }
+        return objects || [];
+    }
+
+    private getNodeLabels(nodes: KubernetesObjectMetadata[]): Map<string, string[]> {
+        const labels: Map<string, string[]> = new Map();
+        for (const node of nodes) {
+            for (const [key, value] of Object.entries(node.labels)) {
+                const values = labels.get(key) || [];
+                if (!values.includes(value)) {
+                    values.push(value);
+                }
+                labels.set(key, values);
+            }
+        }
+        return labels;
+    }
+
+    //group the resources by kind or group version, the map contains the other attribute of the resources
+    private groupResources(resources: KubernetesResourceInfo[], key: keyof KubernetesResourceInfo) {
+        const valueKey: keyof KubernetesResourceInfo = key === 'kind' ? 'groupVersion' : 'kind';
+        const groupedResources: Map<string, string[]> = new Map();
+        for (const resource of resources) {
+            const values = groupedResources.get(resource[key]) || [];
+            if (!values.includes(resource[valueKey])) {
+                values.push(resource[valueKey]);
+            }
+            groupedResources.set(resource[key], values);
+        }
+        return groupedResources;
+    }
+
     private collectSchemaValueCompletions(
         schema: JSONSchemaRef,
         collector: CompletionsCollectorImpl,
@@ -249,10 +481,7 @@ export class YamlCompletionService {
                             !propertySchema.doNotSuggest
                         ) {
                             //add property proposal
-                            completionsCollector.add({
-                                textEdit: this.getPropertyTextEdit(key, position),
-                                label: key
-                            });
+                            completionsCollector.add(this.getPropertyCompletionItem(key, propertySchema, position));
                         }
                     }, this);
                 }
@@ -260,12 +489,169 @@ export class YamlCompletionService {
         }
     }
 
+    private getAliasPrefix(document: TextDocument, position: Position): string | undefined {
+        const lineText = document.getText(Range.create(position.line, 0, position.line, position.character));
+        const match = lineText.match(YamlCompletionService.ALIAS_PREFIX);
+        return match ? match[1] : undefined;
+    }
+
+    private getAnchorCompletions(
+        doc: YamlDocument,
+        offset: number,
+        aliasPrefix: string,
+        completionsCollector: CompletionsCollector,
+        position: Position
+    ) {
+        const range = Range.create(
+            position.line,
+            position.character - aliasPrefix.length,
+            position.line,
+            position.character
+        );
+        for (const [anchor, anchorOffset] of doc.anchors) {
+            //aliases can only reference anchors defined before them
+            if (anchorOffset < offset) {
+                completionsCollector.add({
+                    textEdit: TextEdit.replace(range, anchor),
+                    label: anchor
+                });
+            }
+        }
+    }
+
     private getLabelForValue(value: any) {
         return JSON.stringify(value);
     }
 
-    private getPropertyTextEdit(label: string, position: Position): TextEdit {
-        position.character += 1;
-        return TextEdit.insert(position, label + ': ');
+    private getPropertyCompletionItem(label: string, propertySchema: JSONSchema, position: Position): CompletionItem {
+        if (!this.isObjectSchema(propertySchema)) {
+            return {
+                textEdit: TextEdit.insert(position, label + ': '),
+                label: label
+            };
+        }
+        //insert object properties with their required children in the next lines
+        const snippet = this.getPropertySnippet(label, propertySchema, '', { placeholder: 1 }, new Set());
+        return {
+            textEdit: TextEdit.insert(position, snippet),
+            insertTextFormat: InsertTextFormat.Snippet,
+            //lines of the snippet are indented relative to the line of the completion
+            insertTextMode: InsertTextMode.adjustIndentation,
+            label: label
+        };
+    }
+
+    //offer a complete manifest for documents which only contain apiVersion and kind
+    private getSkeletonCompletion(
+        node: ObjectASTNode,
+        doc: YamlDocument,
+        completionsCollector: CompletionsCollector,
+        schema: ResolvedSchema,
+        position: Position
+    ) {
+        const apiVersion = ValidationUtil.getStringPropertyValue(node, 'apiVersion');
+        const kind = ValidationUtil.getStringPropertyValue(node, 'kind');
+        const hasOtherProperties = node.properties.some(
+            (property) => !['apiVersion', 'kind'].includes(property.keyNode.value)
+        );
+        if (!apiVersion || !kind || hasOtherProperties || !schema.schema.oneOf) {
+            return;
+        }
+
+        const resourceSchema = SchemaValidator.filterOneOfSchemasForKubernetes(node, schema.schema.oneOf)
+            .map((schemaRef) => ValidationUtil.asSchema(schemaRef))
+            .find((schema) => KubernetesValidationUtil.getGroupVersionKindFromSchema(schema));
+        if (!resourceSchema) {
+            return;
+        }
+
+        const counter = { placeholder: 1 };
+        const lines = ['metadata:', `${this.getIndentation(1)}name: $${counter.placeholder++}`];
+        //the scope of the builtin kinds is known without a cluster
+        const namespaced =
+            this.schemaService.isNamespacedResource(doc, apiVersion, kind) ??
+            !kubernetesClusterScopedKinds.includes(kind);
+        if (namespaced) {
+            lines.push(`${this.getIndentation(1)}namespace: $${counter.placeholder++}`);
+        }
+
+        //spec is not required by the schemas, but needed by almost every kind
+        const properties = resourceSchema.properties || {};
+        const skeletonProperties = [...(resourceSchema.required || []), ...(properties['spec'] ? ['spec'] : [])];
+        for (const property of new Set(skeletonProperties)) {
+            if (!YamlCompletionService.SKELETON_IGNORED_PROPERTIES.includes(property)) {
+                lines.push(this.getPropertySnippet(property, properties[property], '', counter, new Set()));
+            }
+        }
+
+        completionsCollector.add({
+            textEdit: TextEdit.insert(position, lines.join('\n')),
+            insertTextFormat: InsertTextFormat.Snippet,
+            insertTextMode: InsertTextMode.adjustIndentation,
+            label: `${kind} skeleton`,
+            detail: `Generate the required fields of ${apiVersion} ${kind}`
+        });
+    }
+
+    private getPropertySnippet(
+        label: string,
+        schema: JSONSchemaRef | undefined,
+        indentation: string,
+        counter: { placeholder: number },
+        visitedSchemas: Set<JSONSchema>
+    ): string {
+        const key = this.escapeSnippet(label) + ':';
+        if (typeof schema !== 'object') {
+            return `${key} $${counter.placeholder++}`;
+        }
+        if (schema.type === 'array') {
+            //sequence items are indented like the formatter does, their properties start after the item indicator
+            const items = schema.items;
+            const itemIndentation = this.indentSequences ? indentation + this.getIndentation(1) : indentation;
+            const itemSnippet =
+                typeof items === 'object' && !Array.isArray(items) && this.isObjectSchema(items)
+                    ? this.getRequiredPropertiesSnippet(items, itemIndentation + '  ', counter, visitedSchemas)
+                    : undefined;
+            return `${key}\n${itemIndentation}- ${itemSnippet || '$' + counter.placeholder++}`;
+        }
+        if (!this.isObjectSchema(schema)) {
+            return `${key} $${counter.placeholder++}`;
+        }
+        const childIndentation = indentation + this.getIndentation(1);
+        const childSnippet = this.getRequiredPropertiesSnippet(schema, childIndentation, counter, visitedSchemas);
+        return `${key}\n${childIndentation}${childSnippet || '$' + counter.placeholder++}`;
+    }
+
+    //get the required properties of an object schema, the first property is not indented
+    private getRequiredPropertiesSnippet(
+        schema: JSONSchema,
+        indentation: string,
+        counter: { placeholder: number },
+        visitedSchemas: Set<JSONSchema>
+    ): string | undefined {
+        //stop at recursive schemas
+        if (!schema.required || !schema.required.length || visitedSchemas.has(schema)) {
+            return undefined;
+        }
+        visitedSchemas.add(schema);
+        const properties = schema.properties || {};
+        const snippets = schema.required.map((required) =>
+            this.getPropertySnippet(required, properties[required], indentation, counter, visitedSchemas)
+        );
+        visitedSchemas.delete(schema);
+        return snippets.join('\n' + indentation);
+    }
+
+    private isObjectSchema(schema: JSONSchema): boolean {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        return types.includes('object') || (!schema.type && !!schema.properties);
+    }
+
+    private getIndentation(level: number): string {
+        return ' '.repeat(this.indentation * level);
+    }
+
+    private escapeSnippet(value: string): string {
+        return value.replace(/[\\$}]/g, '\\$&');
     }
 }
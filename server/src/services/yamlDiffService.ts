@@ -0,0 +1,116 @@
+import { KubernetesObject } from '@kubernetes/client-node';
+import { stringify } from 'yaml';
+import { YamlDocument } from '../parser/yamlDocument';
+import { kubernetesServerFields } from '../types/kubernetesServerFields';
+import { KubernetesDiffChange } from '../types/protocol';
+import { KubernetesObjectClient, KubernetesValidationUtil } from '../utils/kubernetes';
+import { equals } from '../utils/objects';
+import { ValidationUtil } from '../utils/validation';
+
+export interface KubernetesObjectDiff {
+    //resource like Deployment/web
+    resource: string;
+    //undefined if the object does not exist in the cluster
+    live: string | undefined;
+    //the object the cluster would store for the manifest, the manifest itself if the object does not exist
+    local: string;
+    changes: KubernetesDiffChange[];
+}
+
+type JSONObject = { [key: string]: unknown };
+
+export class YamlDiffService {
+    private indentation = 4;
+
+    public configure(indentation: number) {
+        this.indentation = indentation;
+    }
+
+    //compare a resource of a document to its live object in the cluster, like kubectl diff the manifest is applied
+    //as dry run, so fields defaulted by the api server or owned by other field managers are not reported as changes
+    public async doDiff(
+        yamlDocument: YamlDocument,
+        objectClient: KubernetesObjectClient,
+        fieldManager: string
+    ): Promise<KubernetesObjectDiff | undefined> {
+        const root = yamlDocument.root;
+        if (!root || root.type !== 'object') {
+            return undefined;
+        }
+        const manifest: KubernetesObject = ValidationUtil.getNodeValue(root);
+        const liveObject = await objectClient.getObject(manifest);
+        let local: unknown = manifest;
+        let live: unknown = undefined;
+        if (liveObject) {
+            const appliedObject = await objectClient.applyObject(manifest, fieldManager, true);
+            local = this.alignKeys(
+                KubernetesValidationUtil.removeFields(appliedObject, kubernetesServerFields),
+                manifest
+            );
+            live = this.alignKeys(KubernetesValidationUtil.removeFields(liveObject, kubernetesServerFields), local);
+        }
+
+        const changes: KubernetesDiffChange[] = [];
+        this.compareValues('', local, live || {}, changes);
+        return {
+            resource: `${manifest.kind}/${manifest.metadata?.name}`,
+            live: live ? this.stringify(live) : undefined,
+            local: this.stringify(local),
+            changes: changes
+        };
+    }
+
+    private compareValues(path: string, local: unknown, live: unknown, changes: KubernetesDiffChange[]): void {
+        if (equals(local, live)) {
+            return;
+        }
+        if (this.isObject(local) && this.isObject(live)) {
+            const keys = new Set([...Object.keys(local), ...Object.keys(live)]);
+            for (const key of keys) {
+                this.compareValues(this.getPropertyPath(path, key), local[key], live[key], changes);
+            }
+        } else if (Array.isArray(local) && Array.isArray(live)) {
+            for (let i = 0; i < Math.max(local.length, live.length); i++) {
+                this.compareValues(`${path}[${i}]`, local[i], live[i], changes);
+            }
+        } else if (live === undefined) {
+            changes.push({ path: path, type: 'added', localValue: local });
+        } else if (local === undefined) {
+            changes.push({ path: path, type: 'removed', liveValue: live });
+        } else {
+            changes.push({ path: path, type: 'changed', localValue: local, liveValue: live });
+        }
+    }
+
+    //keys containing dots like annotations are written in brackets
+    private getPropertyPath(path: string, key: string): string {
+        if (key.includes('.')) {
+            return `${path}[${key}]`;
+        }
+        return path ? `${path}.${key}` : key;
+    }
+
+    //order the keys of the live object like the manifest to keep the diff small, additional keys come last
+    private alignKeys(live: unknown, local: unknown): unknown {
+        if (this.isObject(live)) {
+            const localObject = this.isObject(local) ? local : {};
+            const keys = [
+                ...Object.keys(localObject).filter((key) => key in live),
+                ...Object.keys(live).filter((key) => !(key in localObject))
+            ];
+            return Object.fromEntries(keys.map((key) => [key, this.alignKeys(live[key], localObject[key])]));
+        }
+        if (Array.isArray(live)) {
+            return live.map((item, index) => this.alignKeys(item, Array.isArray(local) ? local[index] : undefined));
+        }
+        return live;
+    }
+
+    private isObject(value: unknown): value is JSONObject {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    private stringify(value: unknown): string {
+        return stringify(value, { indent: this.indentation });
+    }
+}
@@ -0,0 +1,189 @@
+import { Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Document, isMap, isNode, isScalar, parseAllDocuments, parseDocument, YAMLMap } from 'yaml';
+import { YamlParser } from '../parser/yamlParser';
+import { equals } from '../utils/objects';
+
+export interface YamlFormatSettings {
+    //indent sequence items below their key, otherwise the items start at the column of the key
+    indentSequences: boolean;
+    //order the keys of resources and their metadata conventionally
+    orderKeys: boolean;
+}
+
+export class YamlFormattingService {
+    //order of the keys, "*" is the position of all keys which are not listed
+    private static readonly RESOURCE_KEY_ORDER = ['apiVersion', 'kind', 'metadata', 'spec', 'data', '*', 'status'];
+    private static readonly METADATA_KEY_ORDER = ['name', 'namespace', 'labels', 'annotations', '*'];
+    //line of a document start or end marker including its line break
+    private static readonly DOCUMENT_MARKER = /^(?:---|\.\.\.)(?=\s|$).*(?:\r?\n|$)/gm;
+    private indentation = 4;
+    private settings: YamlFormatSettings = { indentSequences: true, orderKeys: false };
+
+    public configure(indentation: number, settings: YamlFormatSettings) {
+        this.indentation = indentation;
+        this.settings = settings;
+    }
+
+    //format the documents intersecting the range or all documents, every document is replaced on its own
+    public doFormat(textDocument: TextDocument, range?: Range): TextEdit[] {
+        const text = textDocument.getText();
+        const documentRanges = this.getDocumentRanges(text);
+        if (!documentRanges) {
+            return [];
+        }
+        const startOffset = range ? textDocument.offsetAt(range.start) : 0;
+        const endOffset = range ? textDocument.offsetAt(range.end) : text.length;
+
+        const edits: TextEdit[] = [];
+        for (const [documentStart, documentEnd] of documentRanges) {
+            const intersects = documentStart <= startOffset ? documentEnd > startOffset : documentStart < endOffset;
+            if (intersects) {
+                const source = text.substring(documentStart, documentEnd);
+                const formatted = this.formatDocument(source);
+                if (formatted !== undefined && formatted !== source) {
+                    edits.push(
+                        TextEdit.replace(
+                            Range.create(textDocument.positionAt(documentStart), textDocument.positionAt(documentEnd)),
+                            formatted
+                        )
+                    );
+                }
+            }
+        }
+        //the documents are formatted on their own, the whole text has to keep its documents and their content
+        if (
+            edits.length &&
+            !equals(this.getValues(TextDocument.applyEdits(textDocument, edits)), this.getValues(text))
+        ) {
+            return [];
+        }
+        return edits;
+    }
+
+    //text ranges between the document markers, undefined if a marker line has content which belongs to a document
+    private getDocumentRanges(text: string): [number, number][] | undefined {
+        const documentRanges: [number, number][] = [];
+        let documentStart = 0;
+        for (const match of text.matchAll(YamlFormattingService.DOCUMENT_MARKER)) {
+            const content = match[0].substring(3).trim();
+            if (content && !content.startsWith('#')) {
+                return undefined;
+            }
+            documentRanges.push([documentStart, match.index || 0]);
+            documentStart = (match.index || 0) + match[0].length;
+        }
+        documentRanges.push([documentStart, text.length]);
+        return documentRanges;
+    }
+
+    private getValues(text: string): unknown[] {
+        const documents = parseAllDocuments(text, { strict: false });
+        return Array.isArray(documents) ? documents.map((document) => document.toJS()) : [];
+    }
+
+    //format the text of a document, undefined if it can not be formatted without changing its content or comments
+    private formatDocument(source: string): string | undefined {
+        const documents = parseAllDocuments(source, { strict: false });
+        //empty documents and text like directives which is not a document on its own are kept
+        if (!Array.isArray(documents) || documents.length !== 1) {
+            return undefined;
+        }
+        const document = documents[0];
+        if (document.errors.length || document.contents === null) {
+            return undefined;
+        }
+        const value = document.toJS();
+        let formatted = this.stringify(document);
+
+        const formattedDocument = parseDocument(formatted, { strict: false });
+        if (
+            formattedDocument.errors.length ||
+            !equals(formattedDocument.toJS(), value) ||
+            !this.hasSameComments(source, formatted) ||
+            this.stringify(formattedDocument) !== formatted
+        ) {
+            return undefined;
+        }
+        if (source.includes('\r\n')) {
+            formatted = formatted.replace(/\n/g, '\r\n');
+        }
+        return formatted;
+    }
+
+    private stringify(document: Document): string {
+        if (this.settings.orderKeys && isMap(document.contents)) {
+            this.orderKeys(document.contents, YamlFormattingService.RESOURCE_KEY_ORDER);
+            const metadata = document.contents.get('metadata', true);
+            if (isMap(metadata)) {
+                this.orderKeys(metadata, YamlFormattingService.METADATA_KEY_ORDER);
+            }
+        }
+        return document.toString({
+            indent: this.indentation,
+            indentSeq: this.settings.indentSequences,
+            //long values are kept on their line
+            lineWidth: 0
+        });
+    }
+
+    //sort the pairs of a map by the position of their keys, comments of a pair are moved along with it
+    private orderKeys(map: YAMLMap, order: string[]): void {
+        const getPosition = (key: unknown) => {
+            const position = isScalar(key) ? order.indexOf(String(key.value)) : -1;
+            return position !== -1 ? position : order.indexOf('*');
+        };
+        const firstKey = map.items[0]?.key;
+        //the sort is stable, so keys of the same position keep their order
+        map.items.sort((pair1, pair2) => getPosition(pair1.key) - getPosition(pair2.key));
+
+        //the comment above the first key stays at the top, e.g. the kubernetes context of the document
+        const newFirstKey = map.items[0]?.key;
+        if (isNode(firstKey) && isNode(newFirstKey) && firstKey !== newFirstKey && firstKey.commentBefore) {
+            newFirstKey.commentBefore = [firstKey.commentBefore, newFirstKey.commentBefore]
+                .filter((comment) => comment)
+                .join('\n');
+            firstKey.commentBefore = undefined;
+        }
+    }
+
+    //the comments at the top of the document stay there, the other ones belong to the same content as before
+    private hasSameComments(source: string, formatted: string): boolean {
+        const sourceComments = this.getComments(source);
+        const formattedComments = this.getComments(formatted);
+        const topCount = sourceComments.filter((comment) => comment.top).length;
+        const getKeys = (comments: { text: string; content: string }[]) =>
+            comments.map((comment) => `${comment.content} ${comment.text}`).sort();
+        return (
+            sourceComments.length === formattedComments.length &&
+            formattedComments
+                .slice(0, topCount)
+                .every((comment, index) => comment.top && comment.text === sourceComments[index].text) &&
+            equals(getKeys(formattedComments.slice(topCount)), getKeys(sourceComments.slice(topCount)))
+        );
+    }
+
+    //comments tracked by the parser in the order of the text with the content they belong to
+    private getComments(text: string): { text: string; content: string; top: boolean }[] {
+        const textDocument = TextDocument.create('', 'yaml', 0, text);
+        //lines without whitespace, formatting changes the indentation and the spaces between keys and values
+        const lines = text.split(/\r?\n/).map((line) => line.replace(/\s/g, ''));
+        const isContent = (line: string) => !!line && !line.startsWith('#');
+        return new YamlParser(textDocument)
+            .getYamlDocuments()
+            .flatMap((yamlDocument) => yamlDocument.comments)
+            .sort((range1, range2) => textDocument.offsetAt(range1.start) - textDocument.offsetAt(range2.start))
+            .map((range) => {
+                const line = range.start.line;
+                //comments at the end of a line belong to its content, the others to the content below them
+                const textBefore = textDocument
+                    .getText(Range.create(line, 0, line, range.start.character))
+                    .replace(/\s/g, '');
+                return {
+                    text: textDocument.getText(range).trim(),
+                    content: textBefore || lines.slice(line).find(isContent) || '',
+                    top: !textBefore && !lines.slice(0, line).some(isContent)
+                };
+            });
+    }
+}
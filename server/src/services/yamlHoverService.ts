@@ -0,0 +1,145 @@
+import { ASTNode, Hover, MarkupKind, Range } from 'vscode-json-languageservice';
+import { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { YamlDocument } from '../parser/yamlDocument';
+import { JSONSchema } from '../types/jsonSchema';
+import { KubernetesResourceInfo, KubernetesValidationUtil } from '../utils/kubernetes';
+import { isDefined } from '../utils/objects';
+import { JSONSchemaService } from './jsonSchemaService';
+
+interface HoverContent {
+    description?: string;
+    types: string[];
+    enumValues: any[];
+    defaultValue?: any;
+    resource?: KubernetesResourceInfo;
+}
+
+export class YamlHoverService {
+    constructor(private schemaService: JSONSchemaService) {}
+
+    public doHover(document: TextDocument, position: Position, doc: YamlDocument): Thenable<Hover | null> {
+        const offset = document.offsetAt(position);
+        let node = doc.getNodeFromOffset(offset);
+
+        //dont show hover information for comments and collections themselves
+        if (!node || doc.isInComment(position) || node.type === 'object' || node.type === 'array') {
+            return Promise.resolve(null);
+        }
+        const hoverRangeNode = node;
+
+        //use the schema of the property value when hovering over a key
+        if (node.type === 'string') {
+            const parent = node.parent;
+            if (parent && parent.type === 'property' && parent.keyNode === node) {
+                node = parent.valueNode;
+                if (!node) {
+                    return Promise.resolve(null);
+                }
+            }
+        }
+        const hoverNode = node;
+
+        return this.schemaService.getSchemaForResource(document.uri, doc).then((schema) => {
+            if (!schema) {
+                return null;
+            }
+            const content = this.collectHoverContent(doc, schema.schema, hoverNode);
+            const markdown = this.createMarkdown(content);
+            if (!markdown) {
+                return null;
+            }
+            return {
+                contents: {
+                    kind: MarkupKind.Markdown,
+                    value: markdown
+                },
+                range: Range.create(
+                    document.positionAt(hoverRangeNode.offset),
+                    document.positionAt(hoverRangeNode.offset + hoverRangeNode.length)
+                )
+            };
+        });
+    }
+
+    private collectHoverContent(doc: YamlDocument, schema: JSONSchema, node: ASTNode): HoverContent {
+        const content: HoverContent = {
+            types: [],
+            enumValues: []
+        };
+        const matchingSchemas = doc.getMatchingSchemas(schema, node.offset);
+
+        for (const matchingSchema of matchingSchemas) {
+            if (matchingSchema.inverted) {
+                continue;
+            }
+            const currentSchema = matchingSchema.schema;
+
+            //get group, version and kind of the enclosing kubernetes resource
+            if (matchingSchema.node === doc.root && !content.resource) {
+                content.resource = KubernetesValidationUtil.getGroupVersionKindFromSchema(currentSchema);
+            }
+
+            if (matchingSchema.node === node) {
+                if (!content.description) {
+                    content.description =
+                        currentSchema.markdownDescription ||
+                        (currentSchema.description && this.toMarkdown(currentSchema.description));
+                }
+                if (currentSchema.type) {
+                    const types = Array.isArray(currentSchema.type) ? currentSchema.type : [currentSchema.type];
+                    for (const type of types) {
+                        if (!content.types.includes(type)) {
+                            content.types.push(type);
+                        }
+                    }
+                }
+                if (Array.isArray(currentSchema.enum)) {
+                    for (const enumValue of currentSchema.enum) {
+                        if (!content.enumValues.includes(enumValue)) {
+                            content.enumValues.push(enumValue);
+                        }
+                    }
+                }
+                if (isDefined(currentSchema.default) && !isDefined(content.defaultValue)) {
+                    content.defaultValue = currentSchema.default;
+                }
+            }
+        }
+        return content;
+    }
+
+    private createMarkdown(content: HoverContent): string {
+        const sections: string[] = [];
+
+        if (content.description) {
+            sections.push(content.description);
+        }
+        if (content.types.length) {
+            sections.push(`Type: ${content.types.map((type) => this.toCode(type)).join(' | ')}`);
+        }
+        if (content.enumValues.length) {
+            sections.push(
+                `Allowed values: ${content.enumValues.map((value) => this.toCode(JSON.stringify(value))).join(', ')}`
+            );
+        }
+        if (isDefined(content.defaultValue)) {
+            sections.push(`Default: ${this.toCode(JSON.stringify(content.defaultValue))}`);
+        }
+        //only show the resource if there is other information to show as well
+        if (content.resource && sections.length) {
+            sections.push(
+                `Resource: ${this.toCode(content.resource.groupVersion)} ${this.toCode(content.resource.kind)}`
+            );
+        }
+        return sections.join('\n\n');
+    }
+
+    private toMarkdown(plain: string): string {
+        //escape markdown syntax tokens and keep single line breaks of the description
+        return plain.replace(/([^\n\r])(\r?\n)([^\n\r])/gm, '$1\n\n$3').replace(/[\\`*_{}[\]()#+\-.!]/g, '\\$&');
+    }
+
+    private toCode(value: string): string {
+        return '`' + value.replace(/`/g, '\\`') + '`';
+    }
+}
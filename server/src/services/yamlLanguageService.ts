@@ -4,29 +4,47 @@
  *--------------------------------------------------------------------------------------------*/
 
 import {
+    CodeAction,
     CompletionItem,
     CompletionList,
     Diagnostic,
     DocumentLanguageSettings,
+    DocumentSymbol,
+    Hover,
     JSONLanguageStatus,
     LanguageServiceParams,
+    Location,
     LanguageSettings,
     MatchingSchema,
     Position,
-    TextDocument
+    Range,
+    SymbolInformation,
+    TextDocument,
+    TextEdit
 } from 'vscode-json-languageservice';
 import { JSONDocument } from '../parser/jsonDocument';
+import { KubernetesObject } from '@kubernetes/client-node';
 import { YamlDocument } from '../parser/yamlDocument';
 import { YamlParser } from '../parser/yamlParser';
 import { JSONSchema } from '../types/jsonSchema';
+import { KubernetesApiDeprecation, KubernetesObjectClient, KubernetesObjectProvider } from '../utils/kubernetes';
 import { schemaContributions } from '../types/jsonSchemaConfig';
-import { JSONSchemaService } from './jsonSchemaService';
+import { JSONSchemaService, KubernetesClusterResources } from './jsonSchemaService';
 import { JSONValidation } from './jsonValidationService';
 import { YamlCompletionService } from './yamlCompletionService';
+import { YamlHoverService } from './yamlHoverService';
+import { YamlCodeActionService } from './yamlCodeActionService';
+import { YamlSymbolService } from './yamlSymbolService';
+import { WorkspaceDocument, YamlReferenceService } from './yamlReferenceService';
+import { KubernetesObjectProviderResolver, YamlWorkspaceValidationService } from './yamlWorkspaceValidationService';
+import { KubernetesApplyOutcome, KubernetesObjectClientResolver, YamlApplyService } from './yamlApplyService';
+import { KubernetesObjectDiff, YamlDiffService } from './yamlDiffService';
+import { YamlManifestService } from './yamlManifestService';
+import { YamlFormatSettings, YamlFormattingService } from './yamlFormattingService';
 
 export interface IYamlLanguageService {
     configureKubernetes(params: KubernetesParams): void;
-    configure(settings: LanguageSettings): void;
+    configure(settings: YamlLanguageSettings): void;
     doValidation(
         document: TextDocument,
         jsonDocument: YamlDocument,
@@ -42,27 +60,100 @@ export interface IYamlLanguageService {
     ): Thenable<MatchingSchema[]>;
     getLanguageStatus(document: TextDocument, jsonDocument: JSONDocument): JSONLanguageStatus;
     doResolve(item: CompletionItem): Thenable<CompletionItem>;
-    doComplete(document: TextDocument, position: Position, doc: YamlDocument): Thenable<CompletionList | null>;
+    doComplete(
+        document: TextDocument,
+        position: Position,
+        doc: YamlDocument,
+        objectProvider?: KubernetesObjectProvider
+    ): Thenable<CompletionList | null>;
+    doHover(document: TextDocument, position: Position, doc: YamlDocument): Thenable<Hover | null>;
+    doCodeActions(document: TextDocument, diagnostics: Diagnostic[], doc: YamlDocument): Thenable<CodeAction[]>;
+    findDocumentSymbols(document: TextDocument, yamlDocuments: YamlDocument[]): DocumentSymbol[];
+    findWorkspaceSymbols(document: TextDocument, yamlDocuments: YamlDocument[], query: string): SymbolInformation[];
+    findDefinition(document: TextDocument, position: Position, workspace: WorkspaceDocument[]): Location[];
+    findReferences(
+        document: TextDocument,
+        position: Position,
+        workspace: WorkspaceDocument[],
+        includeDeclaration: boolean
+    ): Location[];
+    doWorkspaceValidation(
+        document: TextDocument,
+        workspace: WorkspaceDocument[],
+        getObjectProvider?: KubernetesObjectProviderResolver
+    ): Thenable<Diagnostic[]>;
+    doDryRun(
+        document: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver,
+        fieldManager: string
+    ): Thenable<Diagnostic[]>;
+    doDiff(
+        doc: YamlDocument,
+        objectClient: KubernetesObjectClient,
+        fieldManager: string
+    ): Thenable<KubernetesObjectDiff | undefined>;
+    doApply(
+        document: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver,
+        fieldManager: string
+    ): Thenable<KubernetesApplyOutcome>;
+    doDelete(
+        document: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver
+    ): Thenable<KubernetesApplyOutcome>;
+    doGenerateManifest(object: KubernetesObject, objectClient: KubernetesObjectClient): Thenable<string | undefined>;
+    doFormat(document: TextDocument, range?: Range): TextEdit[];
 }
 
-export interface KubernetesParams {
-    resourceInfo?: Map<string, string>;
+export interface YamlLanguageSettings extends LanguageSettings {
+    //number of spaces used to indent inserted properties
+    indentation?: number;
+    apiDeprecations?: KubernetesApiDeprecation[];
+    //kubernetes version to check deprecated apis against, uses the version of the cluster if not set
+    kubernetesVersion?: string;
+    format?: YamlFormatSettings;
+}
+
+export interface KubernetesParams extends KubernetesClusterResources {
+    //kubeconfig context the resources belong to, the resources of the default cluster if not set
+    context?: string;
 }
 
 export class YamlLanguageService implements IYamlLanguageService {
     private schemaService: JSONSchemaService;
     private completionService: YamlCompletionService;
     private validationService: JSONValidation;
+    private hoverService: YamlHoverService;
+    private codeActionService: YamlCodeActionService;
+    private symbolService: YamlSymbolService;
+    private referenceService: YamlReferenceService;
+    private workspaceValidationService: YamlWorkspaceValidationService;
+    private applyService: YamlApplyService;
+    private diffService: YamlDiffService;
+    private manifestService: YamlManifestService;
+    private formattingService: YamlFormattingService;
 
     constructor(params: LanguageServiceParams) {
         this.schemaService = new JSONSchemaService(params.schemaRequestService, params.workspaceContext);
         this.schemaService.setSchemaContributions(schemaContributions);
 
-        this.completionService = new YamlCompletionService(this.schemaService);
+        this.referenceService = new YamlReferenceService();
+        this.completionService = new YamlCompletionService(this.schemaService, this.referenceService);
         this.validationService = new JSONValidation(this.schemaService);
+        this.hoverService = new YamlHoverService(this.schemaService);
+        this.codeActionService = new YamlCodeActionService(this.schemaService);
+        this.symbolService = new YamlSymbolService();
+        this.workspaceValidationService = new YamlWorkspaceValidationService(this.referenceService);
+        this.applyService = new YamlApplyService();
+        this.diffService = new YamlDiffService();
+        this.manifestService = new YamlManifestService();
+        this.formattingService = new YamlFormattingService();
     }
 
-    public configure(settings: LanguageSettings) {
+    public configure(settings: YamlLanguageSettings) {
         this.schemaService.clearExternalSchemas();
         if (settings.schemas) {
             settings.schemas.forEach((settings) => {
@@ -70,10 +161,19 @@ export class YamlLanguageService implements IYamlLanguageService {
             });
         }
         this.validationService.configure(settings);
+        this.validationService.configureDeprecations(settings.apiDeprecations || [], settings.kubernetesVersion);
+        if (settings.indentation !== undefined) {
+            this.completionService.configure(settings.indentation, settings.format?.indentSequences);
+            this.diffService.configure(settings.indentation);
+            this.manifestService.configure(settings.indentation);
+            if (settings.format) {
+                this.formattingService.configure(settings.indentation, settings.format);
+            }
+        }
     }
 
     public configureKubernetes(params: KubernetesParams) {
-        this.schemaService.setResourceInfo(params.resourceInfo);
+        this.schemaService.setKubernetesResources(params, params.context);
     }
 
     doValidation(
@@ -104,7 +204,78 @@ export class YamlLanguageService implements IYamlLanguageService {
     doResolve(item: CompletionItem): Thenable<CompletionItem> {
         return this.completionService.doResolve(item);
     }
-    doComplete(document: TextDocument, position: Position, doc: YamlDocument): Thenable<CompletionList | null> {
-        return this.completionService.doComplete(document, position, doc);
+    doComplete(
+        document: TextDocument,
+        position: Position,
+        doc: YamlDocument,
+        objectProvider?: KubernetesObjectProvider
+    ): Thenable<CompletionList | null> {
+        return this.completionService.doComplete(document, position, doc, objectProvider);
+    }
+    doHover(document: TextDocument, position: Position, doc: YamlDocument): Thenable<Hover | null> {
+        return this.hoverService.doHover(document, position, doc);
+    }
+    doCodeActions(document: TextDocument, diagnostics: Diagnostic[], doc: YamlDocument): Thenable<CodeAction[]> {
+        return this.codeActionService.doCodeActions(document, diagnostics, doc);
+    }
+    findDocumentSymbols(document: TextDocument, yamlDocuments: YamlDocument[]): DocumentSymbol[] {
+        return this.symbolService.findDocumentSymbols(document, yamlDocuments);
+    }
+    findWorkspaceSymbols(document: TextDocument, yamlDocuments: YamlDocument[], query: string): SymbolInformation[] {
+        return this.symbolService.findWorkspaceSymbols(document, yamlDocuments, query);
+    }
+    findDefinition(document: TextDocument, position: Position, workspace: WorkspaceDocument[]): Location[] {
+        return this.referenceService.findDefinition(document, position, workspace);
+    }
+    findReferences(
+        document: TextDocument,
+        position: Position,
+        workspace: WorkspaceDocument[],
+        includeDeclaration: boolean
+    ): Location[] {
+        return this.referenceService.findReferences(document, position, workspace, includeDeclaration);
+    }
+    doWorkspaceValidation(
+        document: TextDocument,
+        workspace: WorkspaceDocument[],
+        getObjectProvider?: KubernetesObjectProviderResolver
+    ): Thenable<Diagnostic[]> {
+        return this.workspaceValidationService.doValidation(document, workspace, getObjectProvider);
+    }
+    doDryRun(
+        document: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver,
+        fieldManager: string
+    ): Thenable<Diagnostic[]> {
+        return this.applyService.doDryRun(document, yamlDocuments, getObjectClient, fieldManager);
+    }
+    doDiff(
+        doc: YamlDocument,
+        objectClient: KubernetesObjectClient,
+        fieldManager: string
+    ): Thenable<KubernetesObjectDiff | undefined> {
+        return this.diffService.doDiff(doc, objectClient, fieldManager);
+    }
+    doApply(
+        document: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver,
+        fieldManager: string
+    ): Thenable<KubernetesApplyOutcome> {
+        return this.applyService.doApply(document, yamlDocuments, getObjectClient, fieldManager);
+    }
+    doDelete(
+        document: TextDocument,
+        yamlDocuments: YamlDocument[],
+        getObjectClient: KubernetesObjectClientResolver
+    ): Thenable<KubernetesApplyOutcome> {
+        return this.applyService.doDelete(document, yamlDocuments, getObjectClient);
+    }
+    doGenerateManifest(object: KubernetesObject, objectClient: KubernetesObjectClient): Thenable<string | undefined> {
+        return this.manifestService.doGenerate(object, objectClient);
+    }
+    doFormat(document: TextDocument, range?: Range): TextEdit[] {
+        return this.formattingService.doFormat(document, range);
     }
 }
@@ -0,0 +1,28 @@
+import { KubernetesObject } from '@kubernetes/client-node';
+import { stringify } from 'yaml';
+import { kubernetesDefaultedFields, kubernetesServerFields } from '../types/kubernetesServerFields';
+import { KubernetesObjectClient, KubernetesValidationUtil } from '../utils/kubernetes';
+
+export class YamlManifestService {
+    private indentation = 4;
+
+    public configure(indentation: number) {
+        this.indentation = indentation;
+    }
+
+    //generate a manifest from a live object, undefined if the object does not exist
+    public async doGenerate(
+        object: KubernetesObject,
+        objectClient: KubernetesObjectClient
+    ): Promise<string | undefined> {
+        const liveObject = await objectClient.getObject(object);
+        if (!liveObject) {
+            return undefined;
+        }
+        const manifest = KubernetesValidationUtil.removeFields(liveObject, [
+            ...kubernetesServerFields,
+            ...kubernetesDefaultedFields
+        ]);
+        return stringify(manifest, { indent: this.indentation });
+    }
+}
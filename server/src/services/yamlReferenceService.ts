@@ -0,0 +1,388 @@
+import { JSONPath } from 'jsonc-parser';
+import { ASTNode, ObjectASTNode, PropertyASTNode } from 'vscode-json-languageservice';
+import { Location, Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { YamlDocument } from '../parser/yamlDocument';
+import {
+    KubernetesReferenceType,
+    kubernetesClusterScopedKinds,
+    kubernetesPodLabelPaths,
+    kubernetesPodSelectorPaths,
+    kubernetesReferenceTypes
+} from '../types/kubernetesReferences';
+import { ValidationUtil } from '../utils/validation';
+
+export interface WorkspaceDocument {
+    textDocument: TextDocument;
+    yamlDocuments: YamlDocument[];
+}
+
+export interface KubernetesObjectName {
+    kind: string;
+    name: string;
+    namespace?: string;
+}
+
+export interface KubernetesObjectEntry extends KubernetesObjectName {
+    uri: string;
+    node: ASTNode;
+    location: Location;
+    //reference which does not need to exist, e.g. an optional config map
+    optional?: boolean;
+}
+
+//labels of pods or a selector of pods
+export interface KubernetesLabelsEntry {
+    labels: Map<string, string>;
+    namespace?: string;
+    uri: string;
+    node: ObjectASTNode;
+    location: Location;
+    //root of the resource containing the labels
+    root: ObjectASTNode;
+}
+
+export interface KubernetesReferenceIndex {
+    //resources defined in the workspace, located at their name
+    resources: KubernetesObjectEntry[];
+    //properties referencing another resource by its name
+    references: KubernetesObjectEntry[];
+    podLabels: KubernetesLabelsEntry[];
+    selectors: KubernetesLabelsEntry[];
+}
+
+export class YamlReferenceService {
+    private static readonly REFERENCE_PATHS = kubernetesReferenceTypes.map((referenceType) => ({
+        referenceType: referenceType,
+        segments: YamlReferenceService.toPathSegments(referenceType.path)
+    }));
+
+    //jump from a reference to the referenced resource or from a selector to the labels of the selected pods
+    public findDefinition(textDocument: TextDocument, position: Position, workspace: WorkspaceDocument[]): Location[] {
+        const index = this.createIndex(workspace);
+        const node = this.getNodeAtPosition(textDocument, position, workspace);
+        if (!node) {
+            return [];
+        }
+
+        const reference = index.references.find((entry) => entry.node === node);
+        if (reference) {
+            return index.resources
+                .filter((resource) => this.isReferenced(resource, reference))
+                .map((resource) => resource.location);
+        }
+        const selector = index.selectors.find((entry) => this.isInside(node, entry, textDocument.uri));
+        if (selector) {
+            return index.podLabels
+                .filter((podLabels) => this.isSelected(podLabels, selector))
+                .map((podLabels) => podLabels.location);
+        }
+        return [];
+    }
+
+    //find the references to a resource or the selectors of pod labels
+    public findReferences(
+        textDocument: TextDocument,
+        position: Position,
+        workspace: WorkspaceDocument[],
+        includeDeclaration: boolean
+    ): Location[] {
+        const index = this.createIndex(workspace);
+        const node = this.getNodeAtPosition(textDocument, position, workspace);
+        if (!node) {
+            return [];
+        }
+
+        //the resource itself when located at its name, otherwise the resources referenced at the position
+        const resource = index.resources.find((entry) => entry.node === node);
+        const reference = index.references.find((entry) => entry.node === node);
+        const targets: KubernetesObjectName[] = resource ? [resource] : [];
+        if (!resource && reference) {
+            const referencedResources = index.resources.filter((entry) => this.isReferenced(entry, reference));
+            targets.push(...(referencedResources.length ? referencedResources : [reference]));
+        }
+        if (targets.length) {
+            const declarations = includeDeclaration
+                ? index.resources.filter((entry) => targets.includes(entry)).map((entry) => entry.location)
+                : [];
+            const references = index.references
+                .filter((entry) => targets.some((target) => this.isReferenced(target, entry)))
+                .map((entry) => entry.location);
+            return declarations.concat(references);
+        }
+
+        const podLabels = index.podLabels.find((entry) => this.isInside(node, entry, textDocument.uri));
+        if (podLabels) {
+            const selectors = index.selectors
+                .filter((selector) => this.isSelected(podLabels, selector))
+                .map((selector) => selector.location);
+            return includeDeclaration ? [podLabels.location, ...selectors] : selectors;
+        }
+        return [];
+    }
+
+    private getNodeAtPosition(
+        textDocument: TextDocument,
+        position: Position,
+        workspace: WorkspaceDocument[]
+    ): ASTNode | undefined {
+        const offset = textDocument.offsetAt(position);
+        const yamlDocuments = workspace.find((entry) => entry.textDocument.uri === textDocument.uri)?.yamlDocuments;
+        const yamlDocument = yamlDocuments?.find((doc) => doc.isOffsetInDocument(offset));
+        return yamlDocument?.getNodeFromOffset(offset, true);
+    }
+
+    public createIndex(workspace: WorkspaceDocument[]): KubernetesReferenceIndex {
+        const index: KubernetesReferenceIndex = { resources: [], references: [], podLabels: [], selectors: [] };
+        for (const { textDocument, yamlDocuments } of workspace) {
+            for (const yamlDocument of yamlDocuments) {
+                const root = yamlDocument.root;
+                if (root && root.type === 'object') {
+                    this.indexResource(textDocument, root, index);
+                }
+            }
+        }
+        return index;
+    }
+
+    private indexResource(textDocument: TextDocument, root: ObjectASTNode, index: KubernetesReferenceIndex): void {
+        const kind = ValidationUtil.getStringPropertyValue(root, 'kind');
+        const metadata = this.getNodeAtPath(root, ['metadata']);
+        const nameNode = metadata && this.getNodeAtPath(metadata, ['name']);
+        const namespace =
+            metadata?.type === 'object' ? ValidationUtil.getStringPropertyValue(metadata, 'namespace') : undefined;
+        if (!kind) {
+            return;
+        }
+
+        if (nameNode && nameNode.type === 'string') {
+            index.resources.push({
+                kind: kind,
+                name: nameNode.value,
+                namespace: namespace,
+                uri: textDocument.uri,
+                node: nameNode,
+                location: this.getLocation(textDocument, nameNode)
+            });
+        }
+        this.collectReferences(textDocument, root, [], kind, namespace, index.references);
+
+        const podLabelsNode = this.getNodeAtKindPath(root, kubernetesPodLabelPaths[kind]);
+        if (podLabelsNode) {
+            index.podLabels.push(this.createLabelsEntry(textDocument, root, podLabelsNode, namespace));
+        }
+        const selectorNode = this.getNodeAtKindPath(root, kubernetesPodSelectorPaths[kind]);
+        if (selectorNode) {
+            index.selectors.push(this.createLabelsEntry(textDocument, root, selectorNode, namespace));
+        }
+    }
+
+    private collectReferences(
+        textDocument: TextDocument,
+        node: ASTNode,
+        path: JSONPath,
+        sourceKind: string,
+        namespace: string | undefined,
+        references: KubernetesObjectEntry[]
+    ): void {
+        if (node.type === 'object') {
+            for (const property of node.properties) {
+                if (property.valueNode) {
+                    const propertyPath = [...path, property.keyNode.value];
+                    this.collectReferences(
+                        textDocument,
+                        property.valueNode,
+                        propertyPath,
+                        sourceKind,
+                        namespace,
+                        references
+                    );
+                }
+            }
+        } else if (node.type === 'array') {
+            node.items.forEach((item, index) =>
+                this.collectReferences(textDocument, item, [...path, index], sourceKind, namespace, references)
+            );
+        } else if (node.type === 'string') {
+            for (const { referenceType, segments } of YamlReferenceService.REFERENCE_PATHS) {
+                const kind = this.getReferencedKind(referenceType, node.parent?.parent);
+                if (
+                    kind &&
+                    (!referenceType.sourceKinds || referenceType.sourceKinds.includes(sourceKind)) &&
+                    YamlReferenceService.matchesPath(path, segments)
+                ) {
+                    references.push({
+                        kind: kind,
+                        name: node.value,
+                        namespace: this.getReferencedNamespace(referenceType, node.parent?.parent) || namespace,
+                        uri: textDocument.uri,
+                        node: node,
+                        location: this.getLocation(textDocument, node),
+                        optional: this.isOptionalReference(node)
+                    });
+                }
+            }
+        }
+    }
+
+    private isOptionalReference(node: ASTNode): boolean {
+        const parent = node.parent?.parent;
+        return parent?.type === 'object' && ValidationUtil.getPropertyValueByKey(parent, 'optional') === true;
+    }
+
+    //kind of the resources which can be referenced by the value of a property, e.g. to complete their names
+    public getReferencedKindAtProperty(root: ObjectASTNode, property: PropertyASTNode): string | undefined {
+        const sourceKind = ValidationUtil.getStringPropertyValue(root, 'kind');
+        const path = this.getNodePath(root, property);
+        if (!sourceKind || !path) {
+            return undefined;
+        }
+        for (const { referenceType, segments } of YamlReferenceService.REFERENCE_PATHS) {
+            if (
+                (!referenceType.sourceKinds || referenceType.sourceKinds.includes(sourceKind)) &&
+                YamlReferenceService.matchesPath(path, segments)
+            ) {
+                return this.getReferencedKind(referenceType, property.parent);
+            }
+        }
+        return undefined;
+    }
+
+    //path of a node inside of its resource, undefined if the node is not part of the resource
+    public getNodePath(root: ObjectASTNode, node: ASTNode): JSONPath | undefined {
+        const path: JSONPath = [];
+        let current: ASTNode | undefined = node;
+        while (current && current !== root) {
+            const parent: ASTNode | undefined = current.parent;
+            if (current.type === 'property') {
+                path.unshift(current.keyNode.value);
+            } else if (parent?.type === 'array') {
+                path.unshift(parent.items.indexOf(current));
+            }
+            current = parent;
+        }
+        return current === root ? path : undefined;
+    }
+
+    //the kind is either fixed or set next to the reference
+    private getReferencedKind(referenceType: KubernetesReferenceType, parent: ASTNode | undefined): string | undefined {
+        if (referenceType.kindProperty) {
+            return parent?.type === 'object'
+                ? ValidationUtil.getStringPropertyValue(parent, referenceType.kindProperty)
+                : undefined;
+        }
+        return referenceType.kind;
+    }
+
+    //resources are referenced in the namespace of the referencing resource unless the namespace is set next to the reference
+    private getReferencedNamespace(
+        referenceType: KubernetesReferenceType,
+        parent: ASTNode | undefined
+    ): string | undefined {
+        return referenceType.namespaceProperty && parent?.type === 'object'
+            ? ValidationUtil.getStringPropertyValue(parent, referenceType.namespaceProperty)
+            : undefined;
+    }
+
+    private createLabelsEntry(
+        textDocument: TextDocument,
+        root: ObjectASTNode,
+        node: ObjectASTNode,
+        namespace: string | undefined
+    ): KubernetesLabelsEntry {
+        const labels = new Map<string, string>();
+        for (const property of node.properties) {
+            const value = property.valueNode?.value;
+            if (value !== undefined && value !== null) {
+                labels.set(property.keyNode.value, String(value));
+            }
+        }
+        return {
+            labels: labels,
+            namespace: namespace,
+            uri: textDocument.uri,
+            node: node,
+            location: this.getLocation(textDocument, node),
+            root: root
+        };
+    }
+
+    public isReferenced(resource: KubernetesObjectName, reference: KubernetesObjectName): boolean {
+        return (
+            resource.kind === reference.kind &&
+            resource.name === reference.name &&
+            (kubernetesClusterScopedKinds.includes(resource.kind) ||
+                this.isSameNamespace(resource.namespace, reference.namespace))
+        );
+    }
+
+    //a selector selects pods having all of its labels
+    public isSelected(podLabels: KubernetesLabelsEntry, selector: KubernetesLabelsEntry): boolean {
+        return (
+            selector.labels.size > 0 &&
+            this.isSameNamespace(podLabels.namespace, selector.namespace) &&
+            [...selector.labels].every(([key, value]) => podLabels.labels.get(key) === value)
+        );
+    }
+
+    //resources without namespace are created in the namespace of the current context, it might be any namespace
+    private isSameNamespace(namespace1: string | undefined, namespace2: string | undefined): boolean {
+        return !namespace1 || !namespace2 || namespace1 === namespace2;
+    }
+
+    private isInside(node: ASTNode, entry: KubernetesLabelsEntry, uri: string): boolean {
+        return (
+            entry.uri === uri &&
+            node.offset >= entry.node.offset &&
+            node.offset + node.length <= entry.node.offset + entry.node.length
+        );
+    }
+
+    private getNodeAtKindPath(root: ObjectASTNode, path: string | undefined): ObjectASTNode | undefined {
+        const node = path ? this.getNodeAtPath(root, YamlReferenceService.toPathSegments(path)) : undefined;
+        return node?.type === 'object' ? node : undefined;
+    }
+
+    public getNodeAtPath(node: ASTNode, segments: string[]): ASTNode | undefined {
+        let current: ASTNode | undefined = node;
+        for (const segment of segments) {
+            if (current?.type !== 'object') {
+                return undefined;
+            }
+            current = current.properties.find((property) => property.keyNode.value === segment)?.valueNode;
+        }
+        return current;
+    }
+
+    private getLocation(textDocument: TextDocument, node: ASTNode): Location {
+        return Location.create(
+            textDocument.uri,
+            Range.create(textDocument.positionAt(node.offset), textDocument.positionAt(node.offset + node.length))
+        );
+    }
+
+    //split a path like "spec.rules[*].host" into its segments, "*" stands for any sequence item
+    public static toPathSegments(path: string): string[] {
+        return path ? path.replace(/\[\*\]/g, '.*').split('.') : [];
+    }
+
+    public static matchesPath(path: JSONPath, segments: string[], pathIndex = 0, segmentIndex = 0): boolean {
+        if (segmentIndex === segments.length) {
+            return pathIndex === path.length;
+        }
+        const segment = segments[segmentIndex];
+        if (segment === '**') {
+            for (let i = pathIndex; i <= path.length; i++) {
+                if (YamlReferenceService.matchesPath(path, segments, i, segmentIndex + 1)) {
+                    return true;
+                }
+            }
+            return false;
+        }
+        if (pathIndex === path.length) {
+            return false;
+        }
+        const matches = segment === '*' ? typeof path[pathIndex] === 'number' : path[pathIndex] === segment;
+        return matches && YamlReferenceService.matchesPath(path, segments, pathIndex + 1, segmentIndex + 1);
+    }
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JSONSchema, JSONSchemaMap } from '../types/jsonSchema';
+import { YamlSchemaRequestService } from './yamlSchemaRequestService';
+
+export class YamlSchemaCacheService {
+    public static readonly CACHE_DIR_NAME = 'yaml-kubernetes-completion';
+
+    constructor(private cacheBaseDir: string = path.join(os.tmpdir(), YamlSchemaCacheService.CACHE_DIR_NAME)) {}
+
+    public getCacheDirectory(clusterServer: string): string {
+        const clusterHash = crypto.createHash('sha1').update(clusterServer).digest('hex');
+        return path.join(this.cacheBaseDir, clusterHash);
+    }
+
+    public isCacheValid(cacheDirectory: string, cacheTimeout: number): Promise<boolean> {
+        const schemaFile = path.join(cacheDirectory, YamlSchemaRequestService.KUBERNETES_SCHEMA_FILE);
+        return fsPromises.stat(schemaFile).then(
+            (stats) => Date.now() - stats.mtimeMs < cacheTimeout * 1000,
+            () => false
+        );
+    }
+
+    public async writeSchemas(cacheDirectory: string, definitions: JSONSchemaMap): Promise<void> {
+        //use the same structure as the bundled schemas: one definitions file and one schema referencing every definition
+        const allSchema: JSONSchema = {
+            oneOf: Object.keys(definitions).map((name) => ({
+                $ref: `${YamlSchemaRequestService.KUBERNETES_DEFINITIONS_FILE}#/definitions/${name}`
+            }))
+        };
+
+        await fsPromises.mkdir(cacheDirectory, { recursive: true });
+        await fsPromises.writeFile(
+            path.join(cacheDirectory, YamlSchemaRequestService.KUBERNETES_DEFINITIONS_FILE),
+            JSON.stringify({ definitions: definitions })
+        );
+        //write schema file last, it marks the cache as complete
+        await fsPromises.writeFile(
+            path.join(cacheDirectory, YamlSchemaRequestService.KUBERNETES_SCHEMA_FILE),
+            JSON.stringify(allSchema)
+        );
+    }
+}
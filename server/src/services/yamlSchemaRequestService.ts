@@ -4,17 +4,23 @@ import { URI } from 'vscode-uri';
 
 export class YamlSchemaRequestService {
     public static readonly KUBERNETES_SCHEMA_FILE = 'all.json';
+    public static readonly KUBERNETES_DEFINITIONS_FILE = '_definitions.json';
     public static readonly KUBERNETES_SCHEMA_DIR = 'schemas';
 
-    constructor(private baseUri: string) {}
+    private schemaDir: string;
+
+    constructor(private baseUri: string) {
+        this.schemaDir = this.getBundledSchemaDir();
+    }
+
+    //set directory to load the schema files from, uses the bundled schemas if no directory is given
+    public setSchemaDir(schemaDir: string | undefined) {
+        this.schemaDir = schemaDir ?? this.getBundledSchemaDir();
+    }
 
     public requestSchema(uri: string): Thenable<string> {
         const parsedFileUri: URI = URI.parse(uri);
-        const pathToSchema = path.join(
-            this.baseUri,
-            YamlSchemaRequestService.KUBERNETES_SCHEMA_DIR,
-            parsedFileUri.fsPath
-        );
+        const pathToSchema = path.join(this.schemaDir, parsedFileUri.fsPath);
 
         if (parsedFileUri.scheme == 'file') {
             return fsPromises.readFile(pathToSchema).then(
@@ -29,4 +35,8 @@ export class YamlSchemaRequestService {
         }
         return Promise.reject('Unsupported uri scheme');
     }
+
+    private getBundledSchemaDir(): string {
+        return path.join(this.baseUri, YamlSchemaRequestService.KUBERNETES_SCHEMA_DIR);
+    }
 }
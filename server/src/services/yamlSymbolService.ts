@@ -0,0 +1,171 @@
+import { ASTNode, ObjectASTNode } from 'vscode-json-languageservice';
+import { DocumentSymbol, Range, SymbolInformation, SymbolKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { YamlDocument } from '../parser/yamlDocument';
+import { ValidationUtil } from '../utils/validation';
+
+export class YamlSymbolService {
+    //list every document of the file as resource with its properties as children
+    public findDocumentSymbols(document: TextDocument, yamlDocuments: YamlDocument[]): DocumentSymbol[] {
+        const symbols: DocumentSymbol[] = [];
+        yamlDocuments.forEach((yamlDocument, index) => {
+            const root = yamlDocument.root;
+            if (!root) {
+                return;
+            }
+            const range = this.getRange(document, root);
+            const symbol = DocumentSymbol.create(
+                this.getResourceName(root, index),
+                this.getNamespace(root),
+                SymbolKind.Class,
+                range,
+                this.getSelectionRange(document, root),
+                this.getChildSymbols(document, root)
+            );
+            symbols.push(symbol);
+        });
+        return symbols;
+    }
+
+    //list the resources of the file whose name matches the query
+    public findWorkspaceSymbols(
+        document: TextDocument,
+        yamlDocuments: YamlDocument[],
+        query: string
+    ): SymbolInformation[] {
+        const symbols: SymbolInformation[] = [];
+        yamlDocuments.forEach((yamlDocument, index) => {
+            const root = yamlDocument.root;
+            if (!root || root.type !== 'object') {
+                return;
+            }
+            const name = this.getResourceName(root, index);
+            if (this.matchesQuery(name, query)) {
+                symbols.push(
+                    SymbolInformation.create(
+                        name,
+                        SymbolKind.Class,
+                        this.getRange(document, root),
+                        document.uri,
+                        this.getNamespace(root)
+                    )
+                );
+            }
+        });
+        return symbols;
+    }
+
+    //name resources like kubectl does, e.g. Deployment/nginx
+    private getResourceName(root: ASTNode, index: number): string {
+        const kind = root.type === 'object' ? ValidationUtil.getStringPropertyValue(root, 'kind') : undefined;
+        const name = this.getMetadataValue(root, 'name');
+        if (kind && name) {
+            return `${kind}/${name}`;
+        }
+        return kind || name || `Document ${index + 1}`;
+    }
+
+    private getNamespace(root: ASTNode): string | undefined {
+        return this.getMetadataValue(root, 'namespace');
+    }
+
+    private getMetadataValue(root: ASTNode, key: string): string | undefined {
+        const metadata = this.getPropertyValueNode(root, 'metadata');
+        return metadata?.type === 'object' ? ValidationUtil.getStringPropertyValue(metadata, key) : undefined;
+    }
+
+    private getPropertyValueNode(node: ASTNode, key: string): ASTNode | undefined {
+        if (node.type !== 'object') {
+            return undefined;
+        }
+        return node.properties.find((property) => property.keyNode.value === key)?.valueNode;
+    }
+
+    private getSelectionRange(document: TextDocument, root: ASTNode): Range {
+        const kindNode = this.getPropertyValueNode(root, 'kind');
+        return this.getRange(document, kindNode || root);
+    }
+
+    private getChildSymbols(document: TextDocument, node: ASTNode): DocumentSymbol[] {
+        const symbols: DocumentSymbol[] = [];
+        if (node.type === 'object') {
+            for (const property of node.properties) {
+                //merged properties of anchors are located outside of the object
+                if (!this.isInside(property, node)) {
+                    continue;
+                }
+                const valueNode = property.valueNode;
+                symbols.push(
+                    DocumentSymbol.create(
+                        property.keyNode.value,
+                        undefined,
+                        this.getSymbolKind(valueNode),
+                        this.getRange(document, property),
+                        this.getRange(document, property.keyNode),
+                        valueNode && this.isInside(valueNode, property) ? this.getChildSymbols(document, valueNode) : []
+                    )
+                );
+            }
+        } else if (node.type === 'array') {
+            node.items.forEach((item, index) => {
+                //only list items of object sequences, e.g. containers by their name
+                if (item.type !== 'object' || !this.isInside(item, node)) {
+                    return;
+                }
+                symbols.push(
+                    DocumentSymbol.create(
+                        this.getItemName(item) || `[${index}]`,
+                        undefined,
+                        SymbolKind.Object,
+                        this.getRange(document, item),
+                        this.getRange(document, item),
+                        this.getChildSymbols(document, item)
+                    )
+                );
+            });
+        }
+        return symbols;
+    }
+
+    private getItemName(item: ObjectASTNode): string | undefined {
+        return ValidationUtil.getStringPropertyValue(item, 'name');
+    }
+
+    private getSymbolKind(node: ASTNode | undefined): SymbolKind {
+        switch (node?.type) {
+            case 'object':
+                return SymbolKind.Module;
+            case 'array':
+                return SymbolKind.Array;
+            case 'string':
+                return SymbolKind.String;
+            case 'number':
+                return SymbolKind.Number;
+            case 'boolean':
+                return SymbolKind.Boolean;
+            default:
+                return SymbolKind.Null;
+        }
+    }
+
+    private getRange(document: TextDocument, node: ASTNode): Range {
+        return Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+    }
+
+    private isInside(node: ASTNode, parent: ASTNode): boolean {
+        return node.offset >= parent.offset && node.offset + node.length <= parent.offset + parent.length;
+    }
+
+    //match the characters of the query in order, ignoring case
+    private matchesQuery(name: string, query: string): boolean {
+        let index = 0;
+        const lowerCaseName = name.toLowerCase();
+        for (const character of query.toLowerCase()) {
+            index = lowerCaseName.indexOf(character, index) + 1;
+            if (!index) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,108 @@
+import { Dirent, promises as fsPromises } from 'fs';
+import path from 'path';
+import { FileChangeType, FileEvent, TextDocuments } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { FilePatternAssociation } from './jsonSchemaService';
+
+export class YamlWorkspaceService {
+    private static readonly IGNORED_DIRECTORIES = ['node_modules', '.git'];
+    //files of the workspace folders and the content of files which are not open, until they change on disk
+    private folderFiles: Map<string, string[]>;
+    private fileDocuments: Map<string, TextDocument>;
+
+    constructor(private documents: TextDocuments<TextDocument>) {
+        this.folderFiles = new Map();
+        this.fileDocuments = new Map();
+    }
+
+    public isAssociatedFile(uri: string, associatedFiles: string[]): boolean {
+        return new FilePatternAssociation(associatedFiles, []).matchesPattern(uri);
+    }
+
+    public onFilesChanged(changes: FileEvent[]): void {
+        for (const change of changes) {
+            this.fileDocuments.delete(change.uri);
+            if (change.type !== FileChangeType.Changed) {
+                this.folderFiles.clear();
+            }
+        }
+    }
+
+    //get all documents of the workspace folders matching the associated files, open documents are used with their unsaved content
+    public async getWorkspaceDocuments(workspaceFolders: string[], associatedFiles: string[]): Promise<TextDocument[]> {
+        const association = new FilePatternAssociation(associatedFiles, []);
+        const folderUris = new Set(workspaceFolders);
+        //forget files of removed workspace folders
+        for (const folder of this.folderFiles.keys()) {
+            if (!folderUris.has(folder)) {
+                this.folderFiles.delete(folder);
+            }
+        }
+        const documents = new Map<string, TextDocument>();
+
+        for (const document of this.documents.all()) {
+            if (association.matchesPattern(document.uri)) {
+                documents.set(document.uri, document);
+            }
+        }
+
+        for (const workspaceFolder of workspaceFolders) {
+            const folderUri = URI.parse(workspaceFolder);
+            if (folderUri.scheme !== 'file') {
+                continue;
+            }
+            let files = this.folderFiles.get(workspaceFolder);
+            if (!files) {
+                files = await this.findFiles(folderUri.fsPath);
+                this.folderFiles.set(workspaceFolder, files);
+            }
+            for (const file of files) {
+                const uri = URI.file(file).toString();
+                if (!documents.has(uri) && association.matchesPattern(uri)) {
+                    const document = await this.getFileDocument(uri, file);
+                    if (document) {
+                        documents.set(uri, document);
+                    }
+                }
+            }
+        }
+        return [...documents.values()];
+    }
+
+    private async getFileDocument(uri: string, file: string): Promise<TextDocument | undefined> {
+        let document = this.fileDocuments.get(uri);
+        if (!document) {
+            const content = await fsPromises.readFile(file).then(
+                (buffer) => buffer.toString(),
+                (error) => {
+                    console.error(error);
+                    return undefined;
+                }
+            );
+            if (content === undefined) {
+                return undefined;
+            }
+            document = TextDocument.create(uri, 'yaml', 0, content);
+            this.fileDocuments.set(uri, document);
+        }
+        return document;
+    }
+
+    private async findFiles(directory: string): Promise<string[]> {
+        const entries: Dirent[] = await fsPromises.readdir(directory, { withFileTypes: true }).catch((error) => {
+            console.error(error);
+            return [];
+        });
+        const files: string[] = [];
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory() && !YamlWorkspaceService.IGNORED_DIRECTORIES.includes(entry.name)) {
+                files.push(...(await this.findFiles(entryPath)));
+            } else if (entry.isFile()) {
+                files.push(entryPath);
+            }
+        }
+        return files;
+    }
+}
@@ -0,0 +1,345 @@
+import { ASTNode, ObjectASTNode, StringASTNode } from 'vscode-json-languageservice';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as l10n from '@vscode/l10n';
+import { YamlDocument } from '../parser/yamlDocument';
+import {
+    kubernetesClusterReferenceKinds,
+    kubernetesClusterScopedKinds,
+    kubernetesImplicitResources,
+    kubernetesPodLabelPaths,
+    kubernetesPodSpecPaths,
+    kubernetesRequiredReferenceKinds,
+    kubernetesTemplateSelectorPaths
+} from '../types/kubernetesReferences';
+import { KubernetesObjectMetadata, KubernetesObjectProvider } from '../utils/kubernetes';
+import { ValidationUtil } from '../utils/validation';
+import { ProblemCode } from '../validation/validationResult';
+import {
+    KubernetesLabelsEntry,
+    KubernetesObjectEntry,
+    KubernetesReferenceIndex,
+    WorkspaceDocument,
+    YamlReferenceService
+} from './yamlReferenceService';
+
+//cluster of a resource, undefined if references are not looked up in a cluster
+export type KubernetesObjectProviderResolver = (yamlDocument: YamlDocument) => KubernetesObjectProvider | undefined;
+
+export class YamlWorkspaceValidationService {
+    public static readonly WORKSPACE_DIAGNOSTIC_SOURCE = 'kubernetes-workspace';
+    //source of the diagnostics depending on the objects of the cluster, to filter them apart from the other problems
+    public static readonly CLUSTER_DIAGNOSTIC_SOURCE = 'kubernetes-cluster';
+    private static readonly CONTAINER_PROPERTIES = ['containers', 'initContainers'];
+    private static readonly PORT_HANDLER_PROPERTIES = ['httpGet', 'tcpSocket'];
+
+    constructor(private referenceService: YamlReferenceService) {}
+
+    //validate the resources of the document against the other resources of the workspace and optionally the cluster
+    public async doValidation(
+        textDocument: TextDocument,
+        workspace: WorkspaceDocument[],
+        getObjectProvider?: KubernetesObjectProviderResolver
+    ): Promise<Diagnostic[]> {
+        const index = this.referenceService.createIndex(workspace);
+        const diagnostics: Diagnostic[] = [];
+        const yamlDocuments = workspace.find((entry) => entry.textDocument.uri === textDocument.uri)?.yamlDocuments;
+
+        await this.validateSelectors(textDocument, yamlDocuments || [], index, diagnostics, getObjectProvider);
+        await this.validateReferences(textDocument, yamlDocuments || [], index, diagnostics, getObjectProvider);
+        for (const yamlDocument of yamlDocuments || []) {
+            const root = yamlDocument.root;
+            const kind = root?.type === 'object' ? ValidationUtil.getStringPropertyValue(root, 'kind') : undefined;
+            if (root?.type === 'object' && kind) {
+                this.validateTemplateSelector(textDocument, root, kind, diagnostics);
+                this.validateContainerPorts(textDocument, root, diagnostics);
+            }
+        }
+        return diagnostics;
+    }
+
+    //services have to select pods of the workspace or the cluster and can only target ports named by workspace pods
+    private async validateSelectors(
+        textDocument: TextDocument,
+        yamlDocuments: YamlDocument[],
+        index: KubernetesReferenceIndex,
+        diagnostics: Diagnostic[],
+        getObjectProvider?: KubernetesObjectProviderResolver
+    ): Promise<void> {
+        for (const selector of index.selectors) {
+            if (selector.uri !== textDocument.uri || !selector.labels.size) {
+                continue;
+            }
+            const selectedPods = index.podLabels.filter((podLabels) =>
+                this.referenceService.isSelected(podLabels, selector)
+            );
+            if (!selectedPods.length) {
+                const yamlDocument = yamlDocuments.find((doc) => doc.isOffsetInDocument(selector.node.offset));
+                const objectProvider = yamlDocument && getObjectProvider?.(yamlDocument);
+                const diagnostic = objectProvider
+                    ? await this.validateClusterSelector(textDocument, selector, objectProvider)
+                    : this.createDiagnostic(
+                          textDocument,
+                          selector.node,
+                          l10n.t('Selector matches no pod template in the workspace.'),
+                          DiagnosticSeverity.Warning,
+                          ProblemCode.UnmatchedSelector
+                      );
+                if (diagnostic) {
+                    diagnostics.push(diagnostic);
+                }
+                continue;
+            }
+
+            const portNames = new Set<string>();
+            for (const podLabels of selectedPods) {
+                const podSpec = this.getPodSpec(podLabels.root);
+                this.getContainers(podSpec).forEach((container) =>
+                    this.getContainerPortNames(container).forEach((portName) => portNames.add(portName))
+                );
+            }
+            const ports = this.referenceService.getNodeAtPath(selector.root, ['spec', 'ports']);
+            for (const port of ports?.type === 'array' ? ports.items : []) {
+                const targetPort = this.referenceService.getNodeAtPath(port, ['targetPort']);
+                if (targetPort?.type === 'string' && !portNames.has(targetPort.value)) {
+                    diagnostics.push(
+                        this.createDiagnostic(
+                            textDocument,
+                            targetPort,
+                            l10n.t('Port {0} is not defined by the selected pods.', targetPort.value),
+                            DiagnosticSeverity.Warning,
+                            ProblemCode.UndefinedPortName
+                        )
+                    );
+                }
+            }
+        }
+    }
+
+    //referenced config maps, secrets etc. have to be defined next to the resource referencing them or in the cluster
+    private async validateReferences(
+        textDocument: TextDocument,
+        yamlDocuments: YamlDocument[],
+        index: KubernetesReferenceIndex,
+        diagnostics: Diagnostic[],
+        getObjectProvider?: KubernetesObjectProviderResolver
+    ): Promise<void> {
+        const clusterReferences: Promise<Diagnostic | undefined>[] = [];
+        for (const reference of index.references) {
+            if (
+                reference.uri !== textDocument.uri ||
+                reference.optional ||
+                !reference.name ||
+                index.resources.some((resource) => this.referenceService.isReferenced(resource, reference))
+            ) {
+                continue;
+            }
+
+            const yamlDocument = yamlDocuments.find((doc) => doc.isOffsetInDocument(reference.node.offset));
+            const objectProvider = yamlDocument && getObjectProvider?.(yamlDocument);
+            if (objectProvider && kubernetesClusterReferenceKinds.includes(reference.kind)) {
+                clusterReferences.push(this.validateClusterReference(textDocument, reference, objectProvider));
+            } else if (
+                kubernetesRequiredReferenceKinds.includes(reference.kind) &&
+                !kubernetesImplicitResources.some(
+                    (resource) => resource.kind === reference.kind && resource.name === reference.name
+                )
+            ) {
+                diagnostics.push(
+                    this.createDiagnostic(
+                        textDocument,
+                        reference.node,
+                        l10n.t('{0} {1} is not defined in the workspace.', reference.kind, reference.name),
+                        DiagnosticSeverity.Warning,
+                        ProblemCode.UndefinedReference
+                    )
+                );
+            }
+        }
+
+        for (const diagnostic of await Promise.all(clusterReferences)) {
+            if (diagnostic) {
+                diagnostics.push(diagnostic);
+            }
+        }
+    }
+
+    private async validateClusterReference(
+        textDocument: TextDocument,
+        reference: KubernetesObjectEntry,
+        objectProvider: KubernetesObjectProvider
+    ): Promise<Diagnostic | undefined> {
+        const namespace = kubernetesClusterScopedKinds.includes(reference.kind) ? undefined : reference.namespace;
+        let objects: KubernetesObjectMetadata[];
+        try {
+            objects = await objectProvider.listObjects(reference.kind, namespace);
+        } catch (error) {
+            //references can not be validated if the objects are not allowed to be listed
+            return undefined;
+        }
+        if (objects.some((object) => object.name === reference.name)) {
+            return undefined;
+        }
+
+        return this.createDiagnostic(
+            textDocument,
+            reference.node,
+            l10n.t('{0} {1} does not exist in the workspace or the cluster.', reference.kind, reference.name),
+            DiagnosticSeverity.Warning,
+            ProblemCode.UndefinedReference,
+            YamlWorkspaceValidationService.CLUSTER_DIAGNOSTIC_SOURCE
+        );
+    }
+
+    private async validateClusterSelector(
+        textDocument: TextDocument,
+        selector: KubernetesLabelsEntry,
+        objectProvider: KubernetesObjectProvider
+    ): Promise<Diagnostic | undefined> {
+        let pods: KubernetesObjectMetadata[];
+        try {
+            pods = await objectProvider.listObjects('Pod', selector.namespace);
+        } catch (error) {
+            //the selector can not be validated if the pods are not allowed to be listed
+            return undefined;
+        }
+        if (pods.some((pod) => [...selector.labels].every(([key, value]) => pod.labels[key] === value))) {
+            return undefined;
+        }
+        return this.createDiagnostic(
+            textDocument,
+            selector.node,
+            l10n.t('Selector matches no pod template in the workspace and no pod in the cluster.'),
+            DiagnosticSeverity.Warning,
+            ProblemCode.UnmatchedSelector,
+            YamlWorkspaceValidationService.CLUSTER_DIAGNOSTIC_SOURCE
+        );
+    }
+
+    //the selector of a workload has to match the labels of its own pod template
+    private validateTemplateSelector(
+        textDocument: TextDocument,
+        root: ObjectASTNode,
+        kind: string,
+        diagnostics: Diagnostic[]
+    ): void {
+        const selectorPath = kubernetesTemplateSelectorPaths[kind];
+        const labelsPath = kubernetesPodLabelPaths[kind];
+        const matchLabels = selectorPath && this.getNodeAtPath(root, selectorPath);
+        if (!matchLabels || matchLabels.type !== 'object') {
+            return;
+        }
+        const labels = labelsPath ? this.getNodeAtPath(root, labelsPath) : undefined;
+        for (const property of matchLabels.properties) {
+            const key = property.keyNode.value;
+            const value = property.valueNode?.value;
+            const templateValue =
+                labels?.type === 'object' ? ValidationUtil.getPropertyValueByKey(labels, key) : undefined;
+            if (templateValue === undefined || String(templateValue) !== String(value)) {
+                diagnostics.push(
+                    this.createDiagnostic(
+                        textDocument,
+                        property,
+                        l10n.t('Selector label {0} does not match the labels of the pod template.', key),
+                        DiagnosticSeverity.Error,
+                        ProblemCode.TemplateSelectorMismatch
+                    )
+                );
+            }
+        }
+    }
+
+    //probes and lifecycle handlers can only use ports named by their container
+    private validateContainerPorts(textDocument: TextDocument, root: ObjectASTNode, diagnostics: Diagnostic[]): void {
+        for (const container of this.getContainers(this.getPodSpec(root))) {
+            const portNames = this.getContainerPortNames(container);
+            for (const port of this.getNamedPortReferences(container)) {
+                if (!portNames.includes(port.value)) {
+                    const containerName = ValidationUtil.getStringPropertyValue(container, 'name') || '';
+                    diagnostics.push(
+                        this.createDiagnostic(
+                            textDocument,
+                            port,
+                            l10n.t('Container {0} has no port named {1}.', containerName, port.value),
+                            DiagnosticSeverity.Warning,
+                            ProblemCode.UndefinedPortName
+                        )
+                    );
+                }
+            }
+        }
+    }
+
+    private getPodSpec(root: ObjectASTNode): ASTNode | undefined {
+        const kind = ValidationUtil.getStringPropertyValue(root, 'kind');
+        const podSpecPath = kind ? kubernetesPodSpecPaths[kind] : undefined;
+        return podSpecPath ? this.getNodeAtPath(root, podSpecPath) : undefined;
+    }
+
+    private getContainers(podSpec: ASTNode | undefined): ObjectASTNode[] {
+        const containers: ObjectASTNode[] = [];
+        for (const property of YamlWorkspaceValidationService.CONTAINER_PROPERTIES) {
+            const containerList = podSpec && this.referenceService.getNodeAtPath(podSpec, [property]);
+            if (containerList?.type === 'array') {
+                containers.push(...containerList.items.filter((item): item is ObjectASTNode => item.type === 'object'));
+            }
+        }
+        return containers;
+    }
+
+    private getContainerPortNames(container: ObjectASTNode): string[] {
+        const ports = this.referenceService.getNodeAtPath(container, ['ports']);
+        const portNames: string[] = [];
+        for (const port of ports?.type === 'array' ? ports.items : []) {
+            const name = port.type === 'object' ? ValidationUtil.getStringPropertyValue(port, 'name') : undefined;
+            if (name) {
+                portNames.push(name);
+            }
+        }
+        return portNames;
+    }
+
+    //get the ports referenced by name in the http and tcp handlers of a container
+    private getNamedPortReferences(node: ASTNode): StringASTNode[] {
+        const ports: StringASTNode[] = [];
+        if (node.type === 'object') {
+            for (const property of node.properties) {
+                const valueNode = property.valueNode;
+                if (!valueNode) {
+                    continue;
+                }
+                const port = YamlWorkspaceValidationService.PORT_HANDLER_PROPERTIES.includes(property.keyNode.value)
+                    ? this.referenceService.getNodeAtPath(valueNode, ['port'])
+                    : undefined;
+                if (port?.type === 'string') {
+                    ports.push(port);
+                } else if (property.keyNode.value !== 'ports') {
+                    ports.push(...this.getNamedPortReferences(valueNode));
+                }
+            }
+        }
+        return ports;
+    }
+
+    private getNodeAtPath(root: ASTNode, path: string): ASTNode | undefined {
+        return this.referenceService.getNodeAtPath(root, YamlReferenceService.toPathSegments(path));
+    }
+
+    private createDiagnostic(
+        textDocument: TextDocument,
+        node: ASTNode,
+        message: string,
+        severity: DiagnosticSeverity,
+        code: ProblemCode,
+        source = YamlWorkspaceValidationService.WORKSPACE_DIAGNOSTIC_SOURCE
+    ): Diagnostic {
+        //selectors are objects starting with the whitespace after the colon and ending with the line break
+        const nodeText = textDocument.getText().substring(node.offset, node.offset + node.length);
+        const start = node.offset + nodeText.length - nodeText.trimStart().length;
+        const range = Range.create(
+            textDocument.positionAt(start),
+            textDocument.positionAt(start + nodeText.trim().length)
+        );
+        return Diagnostic.create(range, message, severity, code, source);
+    }
+}
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo, Socket } from 'net';
+import os from 'os';
+import path from 'path';
+import { YamlKubernetesCompletionSettings } from '../services/configurationService';
+import { KubernetsApiService } from '../services/kubernetesApiService';
+import { createKubernetesSettings } from './helper';
+
+export interface FakeRequest {
+    method: string;
+    url: string;
+    body: string;
+}
+
+export interface FakeResponse {
+    status: number;
+    body: unknown;
+}
+
+//answer a request, undefined to leave it to the next handler
+export type FakeRequestHandler = (request: FakeRequest) => FakeResponse | undefined;
+
+export interface FakeResource {
+    groupVersion: string;
+    kind: string;
+    //plural name of the resource used in the api paths
+    name: string;
+    namespaced: boolean;
+    shortNames?: string[];
+}
+
+//api server answering the discovery of its resources and the requests of the handlers, other requests are not found
+export class FakeKubernetesServer {
+    public static readonly NAMESPACE = 'team';
+    public readonly requests: FakeRequest[] = [];
+    private readonly handlers: FakeRequestHandler[] = [];
+    private readonly server: http.Server;
+    //open connections are closed with the server, e.g. kept alive by clients of failed requests
+    private readonly sockets: Set<Socket> = new Set();
+    private apiService: KubernetsApiService | undefined;
+    private configDir: string | undefined;
+
+    //the resources can be changed to simulate changes of the cluster
+    constructor(public resources: FakeResource[]) {
+        this.server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                const request = { method: req.method || '', url: req.url || '', body: body };
+                this.requests.push(request);
+                const response =
+                    [...this.handlers, this.handleDiscovery.bind(this)].reduce<FakeResponse | undefined>(
+                        (response, handler) => response || handler(request),
+                        undefined
+                    ) || FakeKubernetesServer.createStatus(404, 'NotFound', `${request.url} not found`);
+                res.writeHead(response.status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(response.body));
+            });
+        });
+        this.server.on('connection', (socket) => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
+    }
+
+    public static createStatus(code: number, reason: string, message: string, details?: unknown): FakeResponse {
+        return {
+            status: code,
+            body: {
+                kind: 'Status',
+                apiVersion: 'v1',
+                status: 'Failure',
+                code: code,
+                reason: reason,
+                message: message,
+                details: details
+            }
+        };
+    }
+
+    public handle(handler: FakeRequestHandler): void {
+        this.handlers.push(handler);
+    }
+
+    //start the server and an api service connected to it by a kubeconfig file
+    public async connect(
+        kubectl: Partial<YamlKubernetesCompletionSettings['kubectl']> = {}
+    ): Promise<KubernetsApiService> {
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        const port = (<AddressInfo>this.server.address()).port;
+        this.configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubeconfig-'));
+        const configFilePath = path.join(this.configDir, 'config');
+        fs.writeFileSync(
+            configFilePath,
+            JSON.stringify({
+                apiVersion: 'v1',
+                kind: 'Config',
+                clusters: [{ name: 'fake', cluster: { server: `http://127.0.0.1:${port}` } }],
+                contexts: [
+                    {
+                        name: 'fake',
+                        context: { cluster: 'fake', user: 'fake', namespace: FakeKubernetesServer.NAMESPACE }
+                    }
+                ],
+                'current-context': 'fake',
+                users: [{ name: 'fake', user: { token: 'token' } }]
+            })
+        );
+        this.apiService = new KubernetsApiService(
+            createKubernetesSettings(configFilePath, { cacheTimeout: 0, ...kubectl })
+        );
+        await this.apiService.start();
+        return this.apiService;
+    }
+
+    public async close(): Promise<void> {
+        this.apiService?.stop();
+        if (this.configDir) {
+            fs.rmSync(this.configDir, { recursive: true, force: true });
+        }
+        const closed = new Promise((resolve) => this.server.close(resolve));
+        this.sockets.forEach((socket) => socket.destroy());
+        await closed;
+    }
+
+    private handleDiscovery(request: FakeRequest): FakeResponse | undefined {
+        if (request.method !== 'GET') {
+            return undefined;
+        }
+        const groupVersions = [...new Set(this.resources.map((resource) => resource.groupVersion))];
+        const groupVersionPaths = groupVersions.map((groupVersion) =>
+            groupVersion.includes('/') ? `/apis/${groupVersion}` : `/api/${groupVersion}`
+        );
+        //the client of the kubernetes library requests the discovery with a trailing slash
+        const url = request.url.replace(/\/$/, '');
+        if (url === '/api') {
+            return { status: 200, body: { kind: 'APIVersions', versions: ['v1'] } };
+        } else if (url === '/apis') {
+            //the versions of a group are listed in the order of the resources, the first one is preferred
+            const groups = new Map<string, { groupVersion: string; version: string }[]>();
+            for (const groupVersion of groupVersions.filter((groupVersion) => groupVersion.includes('/'))) {
+                const [name, version] = groupVersion.split('/');
+                groups.set(name, [...(groups.get(name) || []), { groupVersion: groupVersion, version: version }]);
+            }
+            const groupList = [...groups].map(([name, versions]) => ({
+                name: name,
+                versions: versions,
+                preferredVersion: versions[0]
+            }));
+            return { status: 200, body: { kind: 'APIGroupList', apiVersion: 'v1', groups: groupList } };
+        } else if (url === '/version') {
+            return { status: 200, body: { major: '1', minor: '27', gitVersion: 'v1.27.0' } };
+        } else if (url === '/apis/apiextensions.k8s.io/v1/customresourcedefinitions') {
+            return { status: 200, body: { kind: 'CustomResourceDefinitionList', items: [] } };
+        }
+        const index = groupVersionPaths.indexOf(url);
+        if (index === -1) {
+            return undefined;
+        }
+        const resources = this.resources
+            .filter((resource) => resource.groupVersion === groupVersions[index])
+            .map((resource) => ({
+                name: resource.name,
+                kind: resource.kind,
+                namespaced: resource.namespaced,
+                singularName: '',
+                verbs: ['get', 'list', 'patch', 'delete'],
+                shortNames: resource.shortNames
+            }));
+        return {
+            status: 200,
+            body: { kind: 'APIResourceList', groupVersion: groupVersions[index], resources: resources }
+        };
+    }
+}
@@ -0,0 +1,46 @@
+import path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { YamlSchemaRequestServiceFactory } from '../factories/yamlSchemaRequestServiceFactory';
+import { YamlKubernetesCompletionSettings } from '../services/configurationService';
+import { YamlLanguageService, YamlLanguageSettings } from '../services/yamlLanguageService';
+import { YamlSchemaRequestService } from '../services/yamlSchemaRequestService';
+
+//the tests run from out/test, the bundled schemas are in the root of the server
+export const SERVER_DIR = path.resolve(__dirname, '../..');
+
+export function createLanguageService(settings: YamlLanguageSettings = {}): YamlLanguageService {
+    const languageService = new YamlLanguageService({
+        schemaRequestService: YamlSchemaRequestServiceFactory.getSchemaRequestService(SERVER_DIR)
+    });
+    languageService.configure({
+        allowComments: true,
+        ...settings,
+        schemas: [{ fileMatch: ['*.yaml'], uri: YamlSchemaRequestService.KUBERNETES_SCHEMA_FILE }]
+    });
+    return languageService;
+}
+
+//settings of the server using the given kubeconfig file instead of the kubeconfig of the user
+export function createKubernetesSettings(
+    configFilePath: string,
+    kubectl: Partial<YamlKubernetesCompletionSettings['kubectl']> = {}
+): YamlKubernetesCompletionSettings {
+    return {
+        kubectl: {
+            cacheTimeout: 600,
+            configFilePath: configFilePath,
+            useClusterSchemas: false,
+            offline: false,
+            context: '',
+            fieldManager: 'test',
+            ...kubectl
+        },
+        completion: { indentation: 2 },
+        validation: { associatedFiles: [], kubernetesVersion: '', clusterReferences: false, dryRunOnSave: false },
+        format: { indentSequences: true, orderKeys: false }
+    };
+}
+
+export function createDocument(text: string, uri = 'file:///test/kubernetes.yaml'): TextDocument {
+    return TextDocument.create(uri, 'yaml', 1, text);
+}
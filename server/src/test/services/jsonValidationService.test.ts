@@ -0,0 +1,320 @@
+import * as assert from 'assert';
+import { Diagnostic, Range } from 'vscode-languageserver';
+import { YamlLanguageService } from '../../services/yamlLanguageService';
+import { JSONSchema } from '../../types/jsonSchema';
+import { KubernetesServedVersion } from '../../utils/kubernetes';
+import { ProblemCode, ProblemData } from '../../validation/validationResult';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('JSONValidation deprecations', () => {
+    const disruptionBudget = 'apiVersion:  policy/v1beta1\nkind: PodDisruptionBudget\nmetadata:\n  name: budget\n';
+
+    function createService(kubernetesVersion: string, groupVersions?: string[]): YamlLanguageService {
+        const languageService = createLanguageService({
+            apiDeprecations: [
+                {
+                    groupVersion: 'policy/v1beta1',
+                    kind: 'PodDisruptionBudget',
+                    deprecatedIn: '1.21',
+                    removedIn: '1.25',
+                    replacement: 'policy/v1'
+                }
+            ],
+            kubernetesVersion: kubernetesVersion
+        });
+        if (groupVersions) {
+            const servedVersions = groupVersions.map(
+                (groupVersion): KubernetesServedVersion => ({
+                    groupVersion: groupVersion,
+                    name: 'poddisruptionbudgets',
+                    namespaced: true,
+                    verbs: ['get', 'list'],
+                    shortNames: ['pdb']
+                })
+            );
+            languageService.configureKubernetes({ resourceInfo: new Map([['PodDisruptionBudget', servedVersions]]) });
+        }
+        return languageService;
+    }
+
+    async function getDeprecationDiagnostic(languageService: YamlLanguageService): Promise<Diagnostic | undefined> {
+        const document = createDocument(disruptionBudget);
+        const [yamlDocument] = languageService.parseYamlDocument(document);
+        const diagnostics = await languageService.doValidation(document, yamlDocument);
+        return diagnostics.find(
+            (diagnostic) =>
+                diagnostic.code === ProblemCode.DeprecatedApiVersion ||
+                diagnostic.code === ProblemCode.RemovedApiVersion
+        );
+    }
+
+    test('Reports a deprecated apiVersion at its value', async () => {
+        const diagnostic = await getDeprecationDiagnostic(createService('1.22'));
+        assert.strictEqual(diagnostic?.code, ProblemCode.DeprecatedApiVersion);
+        assert.deepStrictEqual(diagnostic.range, Range.create(0, 13, 0, 27));
+        assert.strictEqual((<ProblemData>diagnostic.data).replacement, 'policy/v1');
+    });
+
+    test('Ignores an apiVersion which is not deprecated yet', async () => {
+        assert.strictEqual(await getDeprecationDiagnostic(createService('1.20')), undefined);
+    });
+
+    test('Reports an apiVersion the cluster does not serve as removed', async () => {
+        const diagnostic = await getDeprecationDiagnostic(createService('1.20', ['policy/v1']));
+        assert.strictEqual(diagnostic?.code, ProblemCode.RemovedApiVersion);
+        assert.strictEqual((<ProblemData>diagnostic.data).replacement, 'policy/v1');
+    });
+
+    test('Does not suggest a replacement the cluster does not serve', async () => {
+        const diagnostic = await getDeprecationDiagnostic(createService('1.22', ['policy/v1beta1']));
+        assert.strictEqual(diagnostic?.code, ProblemCode.DeprecatedApiVersion);
+        assert.strictEqual((<ProblemData>diagnostic.data).replacement, undefined);
+        assert.match(diagnostic.message, /The replacement policy\/v1 is not served by the cluster\./);
+    });
+});
+
+suite('JSONValidation unknown properties', () => {
+    const languageService = createLanguageService();
+
+    async function getNotAllowedDiagnostics(text: string, schema?: JSONSchema): Promise<Diagnostic[]> {
+        const document = createDocument(text);
+        const [yamlDocument] = languageService.parseYamlDocument(document);
+        const diagnostics = await languageService.doValidation(document, yamlDocument, undefined, schema);
+        return diagnostics.filter((diagnostic) => diagnostic.code === ProblemCode.PropertyNotAllowed);
+    }
+
+    test('Reports only the unknown field of a deployment', async () => {
+        const diagnostics = await getNotAllowedDiagnostics(
+            'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: 2\n  paused: false\n  unknown: 1\n'
+        );
+        assert.strictEqual(diagnostics.length, 1);
+        assert.deepStrictEqual(diagnostics[0].range, Range.create(7, 2, 7, 9));
+        assert.strictEqual((<ProblemData>diagnostics[0].data).property, 'unknown');
+    });
+
+    test('Ignores unknown fields of objects preserving them', async () => {
+        const status: JSONSchema = { type: 'object', properties: {}, 'x-kubernetes-preserve-unknown-fields': true };
+        const schema: JSONSchema = {
+            type: 'object',
+            properties: {
+                spec: { type: 'object', properties: { size: { type: 'integer' } } },
+                status: status
+            }
+        };
+        const diagnostics = await getNotAllowedDiagnostics(
+            'spec:\n  size: 1\n  color: red\nstatus:\n  phase: Ready\n',
+            schema
+        );
+        assert.deepStrictEqual(
+            diagnostics.map((diagnostic) => (<ProblemData>diagnostic.data).property),
+            ['color']
+        );
+    });
+
+    test('Ignores keys of maps with pattern properties', async () => {
+        const schema: JSONSchema = {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            patternProperties: { '^x-': { type: 'string' } }
+        };
+        assert.deepStrictEqual(await getNotAllowedDiagnostics('name: a\nx-team: b\nother: c\n', schema), []);
+    });
+
+    test('Reports unknown fields against the selected kind of a oneOf schema', async () => {
+        const schema: JSONSchema = {
+            oneOf: [
+                {
+                    type: 'object',
+                    properties: {
+                        kind: { enum: ['Cat'] },
+                        spec: { type: 'object', properties: { meow: { type: 'boolean' } } }
+                    }
+                },
+                {
+                    type: 'object',
+                    properties: {
+                        kind: { enum: ['Dog'] },
+                        spec: { type: 'object', properties: { bark: { type: 'boolean' } } }
+                    }
+                }
+            ]
+        };
+        assert.deepStrictEqual(await getNotAllowedDiagnostics('kind: Dog\nspec:\n  bark: true\n', schema), []);
+        const diagnostics = await getNotAllowedDiagnostics('kind: Dog\nspec:\n  meow: true\n', schema);
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual((<ProblemData>diagnostics[0].data).property, 'meow');
+    });
+
+    test('Suggests the closest property names first', async () => {
+        const schema: JSONSchema = {
+            type: 'object',
+            properties: { replicas: {}, replica: {}, revision: {}, selector: {} },
+            additionalProperties: false
+        };
+        const [diagnostic] = await getNotAllowedDiagnostics('replicass: 2\n', schema);
+        assert.deepStrictEqual((<ProblemData>diagnostic.data).suggestions, ['replicas', 'replica']);
+        assert.match(diagnostic.message, /Did you mean "replicas", "replica"\?/);
+    });
+
+    test('Tells where a misplaced property belongs to', async () => {
+        const [containerProperty] = await getNotAllowedDiagnostics(
+            'apiVersion: v1\nkind: Pod\nmetadata:\n  name: web\nspec:\n  image: nginx\n  containers: []\n'
+        );
+        assert.match(containerProperty.message, /Did you mean to put it under "spec.containers\[\]"\?/);
+
+        const [deploymentProperty] = await getNotAllowedDiagnostics(
+            'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  template:\n    spec:\n      replicas: 2\n'
+        );
+        assert.match(deploymentProperty.message, /Did you mean to put it under "spec"\?/);
+    });
+});
+
+suite('JSONValidation aliases', () => {
+    const languageService = createLanguageService();
+    const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+            base: { type: 'object' },
+            items: { type: 'array' },
+            replicas: { type: 'integer' },
+            minReplicas: { type: 'integer' },
+            spec: {
+                type: 'object',
+                properties: { image: { type: 'string' }, replicas: { type: 'integer' } },
+                required: ['image'],
+                additionalProperties: false
+            }
+        }
+    };
+
+    //the diagnostics include the syntax errors of the document
+    function validate(text: string): Thenable<Diagnostic[]> {
+        const document = createDocument(text);
+        const [yamlDocument] = languageService.parseYamlDocument(document);
+        return languageService.doValidation(document, yamlDocument, undefined, schema);
+    }
+
+    test('Validates the value of an alias at the alias', async () => {
+        const diagnostics = await validate('replicas: &replicas two\nminReplicas: *replicas\n');
+        assert.deepStrictEqual(
+            diagnostics.map((diagnostic) => diagnostic.range.start.line),
+            [0, 1]
+        );
+    });
+
+    test('Validates the properties of merged maps', async () => {
+        assert.deepStrictEqual(await validate('base: &base\n  image: nginx\nspec:\n  <<: *base\n  replicas: 2\n'), []);
+        const diagnostics = await validate('base: &base\n  image: nginx\n  size: 1\nspec:\n  <<: *base\n');
+        assert.deepStrictEqual(
+            diagnostics.map((diagnostic) => (<ProblemData>diagnostic.data).property),
+            ['size']
+        );
+    });
+
+    test('Prefers the properties of a map to merged properties', async () => {
+        const diagnostics = await validate('base: &base\n  image: 1\nspec:\n  <<: *base\n  image: nginx\n');
+        assert.deepStrictEqual(diagnostics, []);
+    });
+
+    test('Reports aliases of undefined anchors', async () => {
+        const diagnostics = await validate('items:\n  - *nope\nspec:\n  <<: *other\n  image: nginx\n');
+        assert.deepStrictEqual(
+            diagnostics.map((diagnostic) => [diagnostic.message, diagnostic.range]),
+            [
+                ['Anchor nope is not defined.', Range.create(1, 4, 1, 9)],
+                ['Anchor other is not defined.', Range.create(3, 6, 3, 12)]
+            ]
+        );
+    });
+});
+
+suite('JSONValidation cluster resources', () => {
+    const deployment = 'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: two\n';
+    const pod = 'apiVersion: v1\nkind: Pod\nmetadata:\n  name: web\nspec:\n  hostname: 5\n';
+    const podVersion: KubernetesServedVersion = {
+        groupVersion: 'v1',
+        name: 'pods',
+        namespaced: true,
+        verbs: ['get', 'list'],
+        shortNames: ['po']
+    };
+
+    //lines of the diagnostics
+    async function validate(languageService: YamlLanguageService, text: string): Promise<number[]> {
+        const document = createDocument(text);
+        const [yamlDocument] = languageService.parseYamlDocument(document);
+        const diagnostics = await languageService.doValidation(document, yamlDocument);
+        return diagnostics.map((diagnostic) => diagnostic.range.start.line);
+    }
+
+    test('Validates every bundled kind without cluster', async () => {
+        const languageService = createLanguageService();
+        assert.deepStrictEqual(await validate(languageService, deployment), [4, 4, 5]);
+        assert.deepStrictEqual(await validate(languageService, pod), [4, 5]);
+    });
+
+    test('Validates the kinds served by the cluster only', async () => {
+        const languageService = createLanguageService();
+        languageService.configureKubernetes({ resourceInfo: new Map([['Pod', [podVersion]]]) });
+        assert.deepStrictEqual(await validate(languageService, deployment), []);
+        assert.deepStrictEqual(await validate(languageService, pod), [4, 5]);
+    });
+
+    test('Validates every bundled kind again in offline mode', async () => {
+        const languageService = createLanguageService();
+        languageService.configureKubernetes({ resourceInfo: new Map([['Pod', [podVersion]]]) });
+        languageService.configureKubernetes({});
+        assert.deepStrictEqual(await validate(languageService, deployment), [4, 4, 5]);
+    });
+});
+
+suite('JSONValidation kubeconfig context', () => {
+    const deployment = 'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: two\n';
+    const servedVersion = (groupVersion: string, name: string): KubernetesServedVersion => ({
+        groupVersion: groupVersion,
+        name: name,
+        namespaced: true,
+        verbs: ['get', 'list'],
+        shortNames: []
+    });
+
+    test('Reads the context of the comments before the content of a document', () => {
+        const languageService = createLanguageService();
+        const contexts = languageService
+            .parseYamlDocument(
+                createDocument(
+                    '# kubernetes-context: prod\n' +
+                        deployment +
+                        '---\n# team: platform\n#kubernetes-context:  staging \n' +
+                        deployment +
+                        '---\n' +
+                        deployment +
+                        '# kubernetes-context: dev\n'
+                )
+            )
+            .map((yamlDocument) => yamlDocument.getKubernetesContext());
+        assert.deepStrictEqual(contexts, ['prod', 'staging', undefined]);
+    });
+
+    test('Validates a document against the resources of its context', async () => {
+        const languageService = createLanguageService();
+        //the default cluster serves pods only, the production cluster serves deployments as well
+        languageService.configureKubernetes({ resourceInfo: new Map([['Pod', [servedVersion('v1', 'pods')]]]) });
+        languageService.configureKubernetes({
+            resourceInfo: new Map([['Deployment', [servedVersion('apps/v1', 'deployments')]]]),
+            context: 'prod'
+        });
+        const validate = async (text: string) => {
+            const document = createDocument(text);
+            const [yamlDocument] = languageService.parseYamlDocument(document);
+            return (await languageService.doValidation(document, yamlDocument)).length;
+        };
+        assert.strictEqual(await validate(deployment), 0);
+        assert.strictEqual(await validate('# kubernetes-context: prod\n' + deployment), 3);
+        //the default cluster is used until the resources of a context are known
+        assert.strictEqual(await validate('# kubernetes-context: staging\n' + deployment), 0);
+
+        languageService.configureKubernetes({ context: 'prod' });
+        assert.strictEqual(await validate('# kubernetes-context: prod\n' + deployment), 0);
+    });
+});
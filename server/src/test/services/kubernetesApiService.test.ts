@@ -0,0 +1,329 @@
+import * as assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { KubernetsApiService } from '../../services/kubernetesApiService';
+import { YamlSchemaRequestService } from '../../services/yamlSchemaRequestService';
+import { FakeKubernetesServer, FakeResource } from '../fakeKubernetesServer';
+import { createDocument, createKubernetesSettings, createLanguageService } from '../helper';
+
+suite('KubernetsApiService', () => {
+    let server: FakeKubernetesServer;
+
+    teardown(() => server.close());
+
+    test('Fails to start if the resources of the cluster can not be discovered', async () => {
+        server = new FakeKubernetesServer([{ groupVersion: 'v1', kind: 'Pod', name: 'pods', namespaced: true }]);
+        server.handle(() => FakeKubernetesServer.createStatus(503, 'ServiceUnavailable', 'unavailable'));
+        await assert.rejects(server.connect());
+    });
+
+    test('Keeps every served version of a kind with its discovery details', async () => {
+        server = new FakeKubernetesServer([
+            { groupVersion: 'v1', kind: 'Pod', name: 'pods', namespaced: true, shortNames: ['po'] },
+            { groupVersion: 'v1', kind: 'Pod', name: 'pods/status', namespaced: true },
+            {
+                groupVersion: 'autoscaling/v2',
+                kind: 'HorizontalPodAutoscaler',
+                name: 'horizontalpodautoscalers',
+                namespaced: true,
+                shortNames: ['hpa']
+            },
+            {
+                groupVersion: 'autoscaling/v1',
+                kind: 'HorizontalPodAutoscaler',
+                name: 'horizontalpodautoscalers',
+                namespaced: true,
+                shortNames: ['hpa']
+            },
+            {
+                groupVersion: 'rbac.authorization.k8s.io/v1',
+                kind: 'ClusterRole',
+                name: 'clusterroles',
+                namespaced: false
+            }
+        ]);
+        const apiService = await server.connect();
+        const verbs = ['get', 'list', 'patch', 'delete'];
+        assert.deepStrictEqual(
+            apiService.getResourceInfo(),
+            new Map([
+                ['Pod', [{ groupVersion: 'v1', name: 'pods', namespaced: true, verbs: verbs, shortNames: ['po'] }]],
+                [
+                    'HorizontalPodAutoscaler',
+                    ['autoscaling/v2', 'autoscaling/v1'].map((groupVersion) => ({
+                        groupVersion: groupVersion,
+                        name: 'horizontalpodautoscalers',
+                        namespaced: true,
+                        verbs: verbs,
+                        shortNames: ['hpa']
+                    }))
+                ],
+                [
+                    'ClusterRole',
+                    [
+                        {
+                            groupVersion: 'rbac.authorization.k8s.io/v1',
+                            name: 'clusterroles',
+                            namespaced: false,
+                            verbs: verbs,
+                            shortNames: []
+                        }
+                    ]
+                ]
+            ])
+        );
+    });
+
+    suite('Custom resources', () => {
+        const cronTab: FakeResource = {
+            groupVersion: 'stable.example.com/v1',
+            kind: 'CronTab',
+            name: 'crontabs',
+            namespaced: true
+        };
+        const specSchema = { type: 'object', properties: { cronSpec: { type: 'string' } } };
+        const customResourceDefinition = {
+            apiVersion: 'apiextensions.k8s.io/v1',
+            kind: 'CustomResourceDefinition',
+            metadata: { name: 'crontabs.stable.example.com' },
+            spec: {
+                group: 'stable.example.com',
+                names: { kind: 'CronTab', plural: 'crontabs' },
+                scope: 'Namespaced',
+                versions: [
+                    {
+                        name: 'v1',
+                        served: true,
+                        storage: true,
+                        schema: { openAPIV3Schema: { type: 'object', properties: { spec: specSchema } } }
+                    },
+                    {
+                        name: 'v1beta1',
+                        served: false,
+                        storage: false,
+                        schema: { openAPIV3Schema: { type: 'object', properties: { spec: specSchema } } }
+                    }
+                ]
+            }
+        };
+
+        function createServer(definitions: object[] | number): FakeKubernetesServer {
+            server = new FakeKubernetesServer([cronTab]);
+            server.handle((request) => {
+                if (request.url !== '/apis/apiextensions.k8s.io/v1/customresourcedefinitions') {
+                    return undefined;
+                } else if (typeof definitions === 'number') {
+                    return FakeKubernetesServer.createStatus(definitions, 'Forbidden', 'forbidden');
+                }
+                return { status: 200, body: { kind: 'CustomResourceDefinitionList', items: definitions } };
+            });
+            return server;
+        }
+
+        test('Converts the schemas of the served versions', async () => {
+            const apiService = await createServer([customResourceDefinition]).connect();
+            assert.deepStrictEqual(apiService.getCustomResourceSchemas(), [
+                {
+                    type: 'object',
+                    properties: {
+                        spec: specSchema,
+                        apiVersion: { type: 'string' },
+                        kind: { type: 'string' },
+                        metadata: {
+                            $ref: `${YamlSchemaRequestService.KUBERNETES_DEFINITIONS_FILE}#/definitions/io.k8s.apimachinery.pkg.apis.meta.v1.ObjectMeta`
+                        }
+                    },
+                    'x-kubernetes-group-version-kind': [{ group: 'stable.example.com', kind: 'CronTab', version: 'v1' }]
+                }
+            ]);
+        });
+
+        test('Validates custom resources against their schema', async () => {
+            const apiService = await createServer([customResourceDefinition]).connect();
+            const languageService = createLanguageService();
+            languageService.configureKubernetes({
+                resourceInfo: apiService.getResourceInfo(),
+                customResourceSchemas: apiService.getCustomResourceSchemas()
+            });
+            const document = createDocument(
+                'apiVersion: stable.example.com/v1\nkind: CronTab\nmetadata:\n  name: 5\nspec:\n  cronSpec: 5\n'
+            );
+            const [yamlDocument] = languageService.parseYamlDocument(document);
+            const diagnostics = await languageService.doValidation(document, yamlDocument);
+            assert.deepStrictEqual(
+                diagnostics
+                    .map((diagnostic) => [diagnostic.message, diagnostic.range.start.line])
+                    .sort((a, b) => <number>a[1] - <number>b[1]),
+                [
+                    ['Incorrect type. Expected "string".', 3],
+                    ['Incorrect type. Expected "string".', 5]
+                ]
+            );
+        });
+
+        test('Starts without custom resources if they can not be listed', async () => {
+            const apiService = await createServer(403).connect();
+            assert.deepStrictEqual(apiService.getCustomResourceSchemas(), []);
+            assert.strictEqual(apiService.isInitialized(), true);
+        });
+    });
+
+    suite('OpenAPI schemas', () => {
+        const podSchema = {
+            type: 'object',
+            properties: { spec: { $ref: '#/components/schemas/io.k8s.api.core.v1.PodSpec' } }
+        };
+        const podSpecSchema = { type: 'object', properties: { nodeName: { type: 'string' } } };
+        const deploymentSchema = { type: 'object' };
+
+        async function connect(openApiDocuments: { [path: string]: unknown }): Promise<KubernetsApiService> {
+            server = new FakeKubernetesServer([]);
+            server.handle((request) =>
+                request.url in openApiDocuments ? { status: 200, body: openApiDocuments[request.url] } : undefined
+            );
+            return server.connect();
+        }
+
+        test('Merges the definitions of all group versions of openapi v3', async () => {
+            const apiService = await connect({
+                '/openapi/v3': {
+                    paths: {
+                        'api/v1': { serverRelativeURL: '/openapi/v3/api/v1?hash=1' },
+                        'apis/apps/v1': { serverRelativeURL: '/openapi/v3/apis/apps/v1?hash=2' }
+                    }
+                },
+                '/openapi/v3/api/v1?hash=1': {
+                    components: {
+                        schemas: { 'io.k8s.api.core.v1.Pod': podSchema, 'io.k8s.api.core.v1.PodSpec': podSpecSchema }
+                    }
+                },
+                '/openapi/v3/apis/apps/v1?hash=2': {
+                    components: { schemas: { 'io.k8s.api.apps.v1.Deployment': deploymentSchema } }
+                }
+            });
+            assert.deepStrictEqual(await apiService.getOpenApiDefinitions(), {
+                'io.k8s.api.core.v1.Pod': {
+                    type: 'object',
+                    properties: { spec: { $ref: '#/definitions/io.k8s.api.core.v1.PodSpec' } }
+                },
+                'io.k8s.api.core.v1.PodSpec': podSpecSchema,
+                'io.k8s.api.apps.v1.Deployment': deploymentSchema
+            });
+        });
+
+        test('Falls back to the definitions of openapi v2', async () => {
+            const definitions = { 'io.k8s.api.apps.v1.Deployment': deploymentSchema };
+            const apiService = await connect({ '/openapi/v2': { definitions: definitions } });
+            assert.deepStrictEqual(await apiService.getOpenApiDefinitions(), definitions);
+        });
+
+        test('Fails if the cluster serves no openapi document', async () => {
+            const apiService = await connect({ '/openapi/v2': { swagger: '2.0' } });
+            await assert.rejects(apiService.getOpenApiDefinitions());
+        });
+    });
+
+    suite('Refresh', () => {
+        const pod: FakeResource = { groupVersion: 'v1', kind: 'Pod', name: 'pods', namespaced: true };
+        const deployment: FakeResource = {
+            groupVersion: 'apps/v1',
+            kind: 'Deployment',
+            name: 'deployments',
+            namespaced: true
+        };
+
+        test('Notifies about the changed resources of the cluster after the cache timeout', async function () {
+            this.timeout(5000);
+            server = new FakeKubernetesServer([pod]);
+            const apiService = await server.connect({ cacheTimeout: 1 });
+            const changed = new Promise<void>((resolve) => apiService.onResourcesChanged(resolve));
+            server.resources.push(deployment);
+            await changed;
+            assert.deepStrictEqual([...apiService.getResourceInfo().keys()], ['Pod', 'Deployment']);
+        });
+
+        test('Keeps the resources if the cluster is not reachable', async function () {
+            this.timeout(5000);
+            server = new FakeKubernetesServer([pod]);
+            const apiService = await server.connect({ cacheTimeout: 1 });
+            let changed = false;
+            apiService.onResourcesChanged(() => (changed = true));
+            server.handle(() => FakeKubernetesServer.createStatus(503, 'ServiceUnavailable', 'unavailable'));
+            const requestCount = server.requests.length;
+            await new Promise((resolve) => setTimeout(resolve, 1500));
+            assert.ok(server.requests.length > requestCount);
+            assert.deepStrictEqual([...apiService.getResourceInfo().keys()], ['Pod']);
+            assert.strictEqual(changed, false);
+        });
+
+        test('Does not refresh without cache timeout', async () => {
+            server = new FakeKubernetesServer([pod]);
+            await server.connect({ cacheTimeout: 0 });
+            const requestCount = server.requests.length;
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            assert.strictEqual(server.requests.length, requestCount);
+        });
+    });
+});
+
+suite('KubernetsApiService contexts', () => {
+    let configDir: string;
+    let configFilePath: string;
+
+    setup(() => {
+        configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubeconfig-'));
+        configFilePath = path.join(configDir, 'config');
+        fs.writeFileSync(
+            configFilePath,
+            JSON.stringify({
+                apiVersion: 'v1',
+                kind: 'Config',
+                clusters: [
+                    { name: 'dev', cluster: { server: 'https://dev.example.com' } },
+                    { name: 'prod', cluster: { server: 'https://prod.example.com' } }
+                ],
+                contexts: [
+                    { name: 'dev', context: { cluster: 'dev', user: 'admin' } },
+                    { name: 'prod', context: { cluster: 'prod', user: 'admin', namespace: 'shop' } }
+                ],
+                'current-context': 'dev',
+                users: [{ name: 'admin', user: { token: 'token' } }]
+            })
+        );
+    });
+
+    teardown(() => fs.rmSync(configDir, { recursive: true, force: true }));
+
+    const getContexts = (context: string) =>
+        KubernetsApiService.getContexts(createKubernetesSettings(configFilePath, { context: context }));
+
+    test('Lists the contexts of the kubeconfig', () => {
+        assert.deepStrictEqual(getContexts(''), {
+            contexts: [
+                { name: 'dev', cluster: 'dev', namespace: undefined },
+                { name: 'prod', cluster: 'prod', namespace: 'shop' }
+            ],
+            currentContext: 'dev',
+            pinnedContext: ''
+        });
+    });
+
+    test('Uses the pinned context instead of the current context', () => {
+        assert.strictEqual(getContexts('prod').currentContext, 'prod');
+        const apiService = new KubernetsApiService(createKubernetesSettings(configFilePath, { context: 'prod' }));
+        assert.strictEqual(apiService.getContextName(), 'prod');
+        assert.strictEqual(apiService.getClusterServer(), 'https://prod.example.com');
+        assert.strictEqual(apiService.getDefaultNamespace(), 'shop');
+    });
+
+    test('Keeps a pinned context which does not exist anymore', () => {
+        const contexts = getContexts('staging');
+        assert.strictEqual(contexts.currentContext, 'dev');
+        assert.strictEqual(contexts.pinnedContext, 'staging');
+        assert.throws(
+            () => new KubernetsApiService(createKubernetesSettings(configFilePath, { context: 'staging' })),
+            /Context staging does not exist/
+        );
+    });
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { KubernetsApiService } from '../../services/kubernetesApiService';
+import { YamlApplyService } from '../../services/yamlApplyService';
+import { YamlLanguageService } from '../../services/yamlLanguageService';
+import { FakeKubernetesServer } from '../fakeKubernetesServer';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('YamlApplyService', () => {
+    const deployment = [
+        'apiVersion: apps/v1',
+        'kind: Deployment',
+        'metadata:',
+        '  name: web',
+        '  labels:',
+        '    app.kubernetes.io/name: x',
+        'spec:',
+        '  template:',
+        '    spec:',
+        '      containers:',
+        '        - name: Bad',
+        ''
+    ].join('\n');
+    const configMap = (name: string) => `apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: ${name}\n`;
+
+    let server: FakeKubernetesServer;
+    let apiService: KubernetsApiService;
+    let languageService: YamlLanguageService;
+
+    setup(async () => {
+        server = new FakeKubernetesServer([
+            { groupVersion: 'v1', kind: 'ConfigMap', name: 'configmaps', namespaced: true },
+            { groupVersion: 'apps/v1', kind: 'Deployment', name: 'deployments', namespaced: true }
+        ]);
+        server.handle((request) =>
+            request.method === 'PATCH' && request.url.startsWith('/apis/apps/v1/namespaces/team/deployments/web?')
+                ? FakeKubernetesServer.createStatus(422, 'Invalid', 'Deployment.apps "web" is invalid', {
+                      causes: [
+                          {
+                              reason: 'FieldValueInvalid',
+                              message: 'Invalid value: "Bad": must be lowercase',
+                              field: 'spec.template.spec.containers[0].name'
+                          },
+                          {
+                              reason: 'FieldValueRequired',
+                              message: 'Required value',
+                              field: 'spec.template.spec.containers[0].image'
+                          },
+                          {
+                              reason: 'FieldValueInvalid',
+                              message: 'Invalid value',
+                              field: 'metadata.labels[app.kubernetes.io/name]'
+                          },
+                          { reason: 'FieldValueRequired', message: 'Required value', field: 'spec.selector' }
+                      ]
+                  })
+                : undefined
+        );
+        server.handle((request) =>
+            request.method === 'PATCH' && request.url.startsWith('/api/v1/namespaces/team/configmaps/denied?')
+                ? FakeKubernetesServer.createStatus(403, 'Forbidden', 'admission webhook denied the request')
+                : undefined
+        );
+        server.handle((request) =>
+            request.method === 'PATCH' && request.url.startsWith('/api/v1/namespaces/team/configmaps/new?')
+                ? { status: 200, body: JSON.parse(request.body) }
+                : undefined
+        );
+        apiService = await server.connect();
+        languageService = createLanguageService();
+    });
+
+    teardown(() => server.close());
+
+    async function doDryRun(text: string): Promise<Diagnostic[]> {
+        const document = createDocument(text);
+        return languageService.doDryRun(
+            document,
+            languageService.parseYamlDocument(document),
+            () => apiService,
+            'test'
+        );
+    }
+
+    test('Reports the causes of a rejected resource at their fields', async () => {
+        const diagnostics = await doDryRun(deployment);
+        assert.deepStrictEqual(
+            diagnostics.map((diagnostic) => [diagnostic.range, diagnostic.message, diagnostic.code]),
+            [
+                [Range.create(10, 16, 10, 19), 'Invalid value: "Bad": must be lowercase', 'FieldValueInvalid'],
+                [
+                    Range.create(10, 10, 10, 19),
+                    'spec.template.spec.containers[0].image: Required value',
+                    'FieldValueRequired'
+                ],
+                [Range.create(5, 28, 5, 29), 'Invalid value', 'FieldValueInvalid'],
+                [Range.create(6, 0, 6, 4), 'spec.selector: Required value', 'FieldValueRequired']
+            ]
+        );
+        assert.ok(
+            diagnostics.every(
+                (diagnostic) =>
+                    diagnostic.severity === DiagnosticSeverity.Error &&
+                    diagnostic.source === YamlApplyService.DRY_RUN_DIAGNOSTIC_SOURCE
+            )
+        );
+    });
+
+    test('Reports a rejected resource without causes at its name', async () => {
+        const diagnostics = await doDryRun(configMap('denied'));
+        assert.deepStrictEqual(
+            diagnostics.map((diagnostic) => [diagnostic.range, diagnostic.message, diagnostic.code]),
+            [[Range.create(3, 8, 3, 14), 'admission webhook denied the request', 'Forbidden']]
+        );
+    });
+
+    test('Sends the resources as dry run to the namespace of the context', async () => {
+        assert.deepStrictEqual(await doDryRun(configMap('new')), []);
+        const patch = server.requests.find((request) => request.method === 'PATCH');
+        assert.strictEqual(patch?.url, '/api/v1/namespaces/team/configmaps/new?fieldManager=test&dryRun=All');
+    });
+
+    test('Applies the resources and reports the rejected ones', async () => {
+        const document = createDocument(`${configMap('new')}---\n${configMap('denied')}`);
+        const outcome = await languageService.doApply(
+            document,
+            languageService.parseYamlDocument(document),
+            () => apiService,
+            'test'
+        );
+        assert.deepStrictEqual(outcome.resources, [
+            { resource: 'ConfigMap/new', action: 'created' },
+            { resource: 'ConfigMap/denied', error: 'admission webhook denied the request' }
+        ]);
+        assert.deepStrictEqual(
+            outcome.diagnostics.map((diagnostic) => [diagnostic.range, diagnostic.source]),
+            [[Range.create(8, 8, 8, 14), YamlApplyService.APPLY_DIAGNOSTIC_SOURCE]]
+        );
+    });
+});
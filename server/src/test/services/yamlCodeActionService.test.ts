@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { JSONSchema } from '../../types/jsonSchema';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('YamlCodeActionService', () => {
+    const languageService = createLanguageService({
+        apiDeprecations: [
+            {
+                groupVersion: 'policy/v1beta1',
+                kind: 'PodDisruptionBudget',
+                deprecatedIn: '1.21',
+                removedIn: '1.25',
+                replacement: 'policy/v1'
+            }
+        ],
+        kubernetesVersion: '1.25'
+    });
+
+    //text of the document after applying the quick fix with the title
+    async function applyQuickFix(text: string, title: string, schema?: JSONSchema): Promise<string> {
+        const document = createDocument(text);
+        const [yamlDocument] = languageService.parseYamlDocument(document);
+        const diagnostics = await languageService.doValidation(document, yamlDocument, undefined, schema);
+        const codeActions = await languageService.doCodeActions(document, diagnostics, yamlDocument);
+        const codeAction = codeActions.find((codeAction) => codeAction.title === title);
+        assert.ok(codeAction, `no quick fix "${title}" in ${codeActions.map((action) => action.title)}`);
+        return TextDocument.applyEdits(document, codeAction.edit?.changes?.[document.uri] || []);
+    }
+
+    const disruptionBudget = (apiVersion: string) =>
+        `apiVersion: ${apiVersion}\nkind: PodDisruptionBudget\nmetadata:\n  name: budget\n`;
+    const pod = (spec: string) => `apiVersion: v1\nkind: Pod\nmetadata:\n  name: pod\nspec:\n  containers: []\n${spec}`;
+
+    test('Migrates the apiVersion', async () => {
+        const text = await applyQuickFix(disruptionBudget('policy/v1beta1'), 'Migrate to apiVersion policy/v1');
+        assert.strictEqual(text, disruptionBudget('policy/v1'));
+    });
+
+    test('Keeps the quotes of the apiVersion', async () => {
+        const text = await applyQuickFix(disruptionBudget('"policy/v1beta1"'), 'Migrate to apiVersion policy/v1');
+        assert.strictEqual(text, disruptionBudget('"policy/v1"'));
+    });
+
+    test('Replaces an enum value', async () => {
+        const text = await applyQuickFix(pod('  restartPolicy:   Sometimes\n'), 'Replace with Always');
+        assert.strictEqual(text, pod('  restartPolicy:   Always\n'));
+    });
+
+    test('Keeps the quotes of an enum value', async () => {
+        const text = await applyQuickFix(pod("  restartPolicy: 'Sometimes'\n"), 'Replace with Always');
+        assert.strictEqual(text, pod("  restartPolicy: 'Always'\n"));
+    });
+
+    test('Renames a property', async () => {
+        const schema: JSONSchema = {
+            type: 'object',
+            properties: { restartPolicy: { type: 'string' }, containers: { type: 'array' } },
+            additionalProperties: false
+        };
+        const text = await applyQuickFix('restartPolicyy: Always\n', 'Rename to "restartPolicy"', schema);
+        assert.strictEqual(text, 'restartPolicy: Always\n');
+    });
+});
@@ -0,0 +1,205 @@
+import * as assert from 'assert';
+import {
+    CompletionItem,
+    CompletionList,
+    InsertTextFormat,
+    InsertTextMode,
+    Position,
+    Range,
+    TextEdit
+} from 'vscode-languageserver';
+import { YamlLanguageService, YamlLanguageSettings } from '../../services/yamlLanguageService';
+import { KubernetesObjectMetadata, KubernetesObjectProvider } from '../../utils/kubernetes';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('YamlCompletionService', () => {
+    let languageService: YamlLanguageService;
+
+    setup(() => {
+        languageService = createLanguageService();
+    });
+
+    //complete at the end of the text or at the "|" in the text
+    async function complete(text: string, settings?: YamlLanguageSettings): Promise<CompletionItem[]> {
+        if (settings) {
+            languageService = createLanguageService(settings);
+        }
+        return (await completeList(text))?.items || [];
+    }
+
+    function completeList(text: string, objectProvider?: KubernetesObjectProvider): Thenable<CompletionList | null> {
+        const offset = text.includes('|') ? text.indexOf('|') : text.length;
+        const document = createDocument(text.replace('|', ''));
+        const [yamlDocument] = languageService.parseYamlDocument(document);
+        return languageService.doComplete(document, document.positionAt(offset), yamlDocument, objectProvider);
+    }
+
+    test('Completes the anchors defined before an alias', async () => {
+        const items = await complete(
+            'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: &name web\n  labels: &labels\n    app: *|\n' +
+                '  annotations: &annotations\n    team: platform\n'
+        );
+        assert.deepStrictEqual(
+            items.map((item) => item.label),
+            ['name', 'labels']
+        );
+    });
+
+    test('Inserts a property at the cursor', async () => {
+        const getHostnameEdit = async (text: string) =>
+            (await complete(text)).find((item) => item.label === 'hostname')?.textEdit;
+        //the cursor is at the end of the line in both cases
+        assert.deepStrictEqual(
+            await getHostnameEdit('apiVersion: v1\nkind: Pod\nspec:\n  containers: []\n  |\n  dnsPolicy: Default\n'),
+            TextEdit.insert(Position.create(4, 2), 'hostname: ')
+        );
+        const items = await complete('apiVersion: v1\nkind: Pod\n');
+        assert.deepStrictEqual(
+            items.find((item) => item.label === 'metadata')?.textEdit,
+            TextEdit.insert(Position.create(2, 0), 'metadata:\n    $1')
+        );
+    });
+
+    test('Inserts the required properties of an object as snippet', async () => {
+        const items = await complete('apiVersion: apps/v1\nkind: Deployment\n|\nmetadata:\n  name: web\n', {
+            indentation: 2
+        });
+        const spec = items.find((item) => item.label === 'spec');
+        assert.deepStrictEqual(
+            spec?.textEdit,
+            TextEdit.insert(Position.create(2, 0), 'spec:\n  selector:\n    $1\n  template:\n    $2')
+        );
+        assert.strictEqual(spec.insertTextFormat, InsertTextFormat.Snippet);
+        assert.strictEqual(spec.insertTextMode, InsertTextMode.adjustIndentation);
+    });
+
+    test('Completes the kinds of the api version without lists', async () => {
+        const labels = (await complete('apiVersion: v1\nkind: |\n')).map((item) => item.label);
+        assert.ok(labels.includes('Pod') && labels.includes('ConfigMap'));
+        assert.ok(!labels.includes('Deployment'));
+        assert.deepStrictEqual(
+            labels.filter((label) => label.endsWith('List')),
+            []
+        );
+    });
+
+    test('Adds the api version of a completed kind', async () => {
+        const deployment = (await complete('kind: |\n')).find((item) => item.label === 'Deployment');
+        assert.strictEqual(deployment?.detail, 'apps/v1');
+        assert.deepStrictEqual(deployment.additionalTextEdits, [
+            TextEdit.insert(Position.create(0, 0), 'apiVersion: apps/v1\n')
+        ]);
+    });
+
+    test('Completes the api versions serving the kind', async () => {
+        const items = await complete('apiVersion: |\nkind: HorizontalPodAutoscaler\n');
+        assert.deepStrictEqual(
+            items.map((item) => [item.label, item.detail]),
+            [
+                ['autoscaling/v1', 'HorizontalPodAutoscaler'],
+                ['autoscaling/v2', 'HorizontalPodAutoscaler'],
+                ['autoscaling/v2beta2', 'HorizontalPodAutoscaler']
+            ]
+        );
+    });
+
+    suite('Skeleton', () => {
+        async function getSkeleton(text: string, indentSequences = true): Promise<string | undefined> {
+            const items = await complete(text, {
+                indentation: 2,
+                format: { indentSequences: indentSequences, orderKeys: false }
+            });
+            return items.find((item) => item.label.endsWith(' skeleton'))?.textEdit?.newText;
+        }
+
+        test('Generates the required fields of a namespaced kind', async () => {
+            assert.strictEqual(
+                await getSkeleton('apiVersion: v1\nkind: Pod\n|\n'),
+                'metadata:\n  name: $1\n  namespace: $2\nspec:\n  containers:\n    - name: $3'
+            );
+        });
+
+        test('Starts sequence items at the column of their key if sequences are not indented', async () => {
+            assert.strictEqual(
+                await getSkeleton('apiVersion: v1\nkind: Pod\n|\n', false),
+                'metadata:\n  name: $1\n  namespace: $2\nspec:\n  containers:\n  - name: $3'
+            );
+        });
+
+        test('Leaves out the namespace of a cluster scoped kind', async () => {
+            assert.strictEqual(
+                await getSkeleton('apiVersion: rbac.authorization.k8s.io/v1\nkind: ClusterRole\n|\n'),
+                'metadata:\n  name: $1'
+            );
+        });
+
+        test('Is only offered for documents without other fields', async () => {
+            assert.strictEqual(await getSkeleton('apiVersion: v1\nkind: Pod\n|\nmetadata:\n  name: web\n'), undefined);
+        });
+    });
+
+    suite('Cluster objects', () => {
+        const nodes = [
+            { name: 'node-1', labels: { zone: 'east', disk: 'ssd' } },
+            { name: 'node-2', labels: { zone: 'west', disk: 'ssd' } }
+        ];
+        //kinds and namespaces of the listed objects requested by the completion
+        const requested: [string, string | undefined][] = [];
+
+        //complete in the spec of a pod with the objects listed before by kind
+        function completePod(spec: string, objects: Record<string, KubernetesObjectMetadata[]>) {
+            requested.length = 0;
+            const objectProvider: KubernetesObjectProvider = {
+                getDefaultNamespace: () => 'default',
+                listObjects: (kind) => Promise.resolve(objects[kind] || []),
+                getListedObjects: (kind, namespace) => {
+                    requested.push([kind, namespace]);
+                    return objects[kind];
+                }
+            };
+            const text = `apiVersion: v1\nkind: Pod\nmetadata:\n  name: web\n  namespace: team\nspec:\n${spec}`;
+            return completeList(text, objectProvider);
+        }
+
+        test('Completes the names of referenced objects of the namespace', async () => {
+            const list = await completePod('  volumes:\n    - name: config\n      configMap:\n        name: |\n', {
+                ConfigMap: [{ name: 'web-config', labels: {} }]
+            });
+            assert.deepStrictEqual(
+                list?.items.map((item) => [item.label, item.detail]),
+                [['web-config', 'ConfigMap']]
+            );
+            assert.strictEqual(list.isIncomplete, false);
+            assert.deepStrictEqual(requested, [['ConfigMap', 'team']]);
+        });
+
+        test('Marks the list as incomplete until the objects are listed', async () => {
+            const list = await completePod('  serviceAccountName: |\n', {});
+            assert.deepStrictEqual(list?.items, []);
+            assert.strictEqual(list.isIncomplete, true);
+        });
+
+        test('Completes the labels of the nodes not used by the node selector', async () => {
+            const getEdits = async (selector: string) =>
+                (await completePod(`  nodeSelector:\n${selector}`, { Node: nodes }))?.items.map(
+                    (item) => item.textEdit
+                );
+            assert.deepStrictEqual(await getEdits('    |\n    zone: east\n'), [
+                TextEdit.replace(Range.create(7, 4, 7, 4), 'disk: ')
+            ]);
+            assert.deepStrictEqual(requested, [['Node', undefined]]);
+            //the typed part of the key is replaced
+            assert.deepStrictEqual(await getEdits('    zone: east\n    di|\n'), [
+                TextEdit.replace(Range.create(8, 4, 8, 6), 'disk: ')
+            ]);
+        });
+
+        test('Completes the values of a node label', async () => {
+            const list = await completePod('  nodeSelector:\n    zone: |\n', { Node: nodes });
+            assert.deepStrictEqual(
+                list?.items.map((item) => item.label),
+                ['east', 'west']
+            );
+        });
+    });
+});
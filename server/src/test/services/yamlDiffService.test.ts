@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { KubernetsApiService } from '../../services/kubernetesApiService';
+import { YamlLanguageService } from '../../services/yamlLanguageService';
+import { FakeKubernetesServer } from '../fakeKubernetesServer';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('YamlDiffService', () => {
+    const configMap = (name: string, value: string) =>
+        `apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: ${name}\ndata:\n  key: ${value}\n`;
+    //live object with fields of the api server and of other field managers
+    const liveObject = (value: string, generation: number) => ({
+        apiVersion: 'v1',
+        kind: 'ConfigMap',
+        metadata: {
+            name: 'config',
+            namespace: FakeKubernetesServer.NAMESPACE,
+            uid: 'uid',
+            resourceVersion: String(generation),
+            creationTimestamp: '2023-01-01T00:00:00Z',
+            managedFields: [{ manager: 'test' }],
+            labels: { team: 'platform' }
+        },
+        data: { key: value },
+        immutable: false
+    });
+
+    let server: FakeKubernetesServer;
+    let apiService: KubernetsApiService;
+    let languageService: YamlLanguageService;
+
+    setup(async () => {
+        server = new FakeKubernetesServer([
+            { groupVersion: 'v1', kind: 'ConfigMap', name: 'configmaps', namespaced: true }
+        ]);
+        server.handle((request) => {
+            if (!request.url.startsWith('/api/v1/namespaces/team/configmaps/config')) {
+                return undefined;
+            }
+            //the dry run merges the manifest into the live object
+            const object = liveObject(request.method === 'PATCH' ? JSON.parse(request.body).data.key : 'old', 1);
+            return { status: 200, body: object };
+        });
+        apiService = await server.connect();
+        languageService = createLanguageService({ indentation: 2 });
+    });
+
+    teardown(() => server.close());
+
+    async function doDiff(text: string) {
+        const document = createDocument(text);
+        return languageService.doDiff(languageService.parseYamlDocument(document)[0], apiService, 'test');
+    }
+
+    test('Compares the live object to the dry run of the manifest', async () => {
+        const diff = await doDiff(configMap('config', 'new'));
+        assert.deepStrictEqual(diff?.changes, [
+            { path: 'data.key', type: 'changed', localValue: 'new', liveValue: 'old' }
+        ]);
+        assert.strictEqual(
+            diff.local,
+            'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: config\n  namespace: team\n  labels:\n    team: platform\n' +
+                'data:\n  key: new\nimmutable: false\n'
+        );
+        const patch = server.requests.find((request) => request.method === 'PATCH');
+        assert.strictEqual(patch?.url, '/api/v1/namespaces/team/configmaps/config?fieldManager=test&dryRun=All');
+    });
+
+    test('Compares a new object to the manifest', async () => {
+        const diff = await doDiff(configMap('other', 'new'));
+        assert.strictEqual(diff?.local, configMap('other', 'new'));
+        assert.strictEqual(diff.live, undefined);
+        assert.ok(!server.requests.some((request) => request.method === 'PATCH'));
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { YamlFormattingService } from '../../services/yamlFormattingService';
+import { createDocument } from '../helper';
+
+suite('YamlFormattingService', () => {
+    function format(text: string, orderKeys = false, range?: Range): string {
+        const formattingService = new YamlFormattingService();
+        formattingService.configure(2, { indentSequences: true, orderKeys: orderKeys });
+        const document = createDocument(text);
+        return TextDocument.applyEdits(document, formattingService.doFormat(document, range));
+    }
+
+    test('Formats every document', () => {
+        assert.strictEqual(format('a:    1\n---\nb:\n    - c\n'), 'a: 1\n---\nb:\n  - c\n');
+    });
+
+    test('Keeps empty documents', () => {
+        assert.strictEqual(format('---\n---\n'), '---\n---\n');
+        assert.strictEqual(
+            format('a:    1\n---\n---\n# comment\n---\nb:    2'),
+            'a: 1\n---\n---\n# comment\n---\nb: 2\n'
+        );
+    });
+
+    test('Formats the documents in the range', () => {
+        const text = 'a:    1\n---\nb:    2\n';
+        assert.strictEqual(format(text, false, Range.create(2, 0, 2, 1)), 'a:    1\n---\nb: 2\n');
+    });
+
+    test('Keeps the line breaks', () => {
+        assert.strictEqual(format('a:    1\r\n---\r\nb:    2\r\n'), 'a: 1\r\n---\r\nb: 2\r\n');
+    });
+
+    test('Orders the keys of a resource', () => {
+        const text = 'spec: {}\nmetadata:\n  labels: {}\n  name: "#a" # name\nkind: Pod\napiVersion: v1\n';
+        const formatted = 'apiVersion: v1\nkind: Pod\nmetadata:\n  name: "#a" # name\n  labels: {}\nspec: {}\n';
+        assert.strictEqual(format(text, true), formatted);
+    });
+
+    test('Keeps the comment at the top of the document', () => {
+        const text = '# kubernetes-context: prod\nkind: Pod\n# api\napiVersion: v1\n';
+        const formatted = '# kubernetes-context: prod\n# api\napiVersion: v1\nkind: Pod\n';
+        assert.strictEqual(format(text, true), formatted);
+    });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { KubernetesObject } from '@kubernetes/client-node';
+import { KubernetsApiService } from '../../services/kubernetesApiService';
+import { YamlLanguageService } from '../../services/yamlLanguageService';
+import { kubernetesDefaultedFields, kubernetesServerFields } from '../../types/kubernetesServerFields';
+import { KubernetesValidationUtil } from '../../utils/kubernetes';
+import { FakeKubernetesServer } from '../fakeKubernetesServer';
+import { createLanguageService } from '../helper';
+
+suite('KubernetesValidationUtil removeFields', () => {
+    const service = (clusterIP: string) => ({
+        apiVersion: 'v1',
+        kind: 'Service',
+        metadata: { name: 'web', uid: 'uid', annotations: { team: 'platform' } },
+        spec: {
+            clusterIP: clusterIP,
+            clusterIPs: [clusterIP],
+            ports: [{ port: 80, protocol: 'TCP' }],
+            type: 'ClusterIP',
+            externalTrafficPolicy: 'Local'
+        },
+        status: { loadBalancer: {} }
+    });
+    const removeFields = (object: KubernetesObject) =>
+        <KubernetesObject & { spec?: object }>(
+            KubernetesValidationUtil.removeFields(object, [...kubernetesServerFields, ...kubernetesDefaultedFields])
+        );
+
+    test('Removes the fields assigned by the api server', () => {
+        assert.deepStrictEqual(removeFields(service('10.0.0.1')), {
+            apiVersion: 'v1',
+            kind: 'Service',
+            metadata: { name: 'web', annotations: { team: 'platform' } },
+            spec: { ports: [{ port: 80 }], externalTrafficPolicy: 'Local' }
+        });
+    });
+
+    test('Keeps the cluster ip of a headless service', () => {
+        const spec = removeFields(service('None')).spec;
+        assert.deepStrictEqual(spec, {
+            clusterIP: 'None',
+            clusterIPs: ['None'],
+            ports: [{ port: 80 }],
+            externalTrafficPolicy: 'Local'
+        });
+    });
+
+    test('Keeps fields differing from their default value', () => {
+        const object = { ...service('10.0.0.1'), spec: { type: 'NodePort', sessionAffinity: 'ClientIP' } };
+        assert.deepStrictEqual(removeFields(object).spec, { type: 'NodePort', sessionAffinity: 'ClientIP' });
+    });
+
+    test('Removes fields of the given kinds only', () => {
+        const object = { kind: 'ConfigMap', metadata: { name: 'config' }, spec: { clusterIP: '10.0.0.1' } };
+        assert.deepStrictEqual(removeFields(object), object);
+    });
+});
+
+suite('YamlManifestService', () => {
+    let server: FakeKubernetesServer;
+    let apiService: KubernetsApiService;
+    let languageService: YamlLanguageService;
+
+    setup(async () => {
+        server = new FakeKubernetesServer([
+            { groupVersion: 'v1', kind: 'Service', name: 'services', namespaced: true }
+        ]);
+        server.handle((request) => {
+            if (request.url.startsWith('/api/v1/namespaces/team/services/web')) {
+                return {
+                    status: 200,
+                    body: {
+                        apiVersion: 'v1',
+                        kind: 'Service',
+                        metadata: { name: 'web', namespace: FakeKubernetesServer.NAMESPACE, resourceVersion: '1' },
+                        spec: { clusterIP: 'None', ports: [{ port: 80, protocol: 'TCP' }], type: 'ClusterIP' }
+                    }
+                };
+            }
+            //other objects are not found
+            return undefined;
+        });
+        apiService = await server.connect();
+        languageService = createLanguageService({ indentation: 2 });
+    });
+
+    teardown(() => server.close());
+
+    const object = (name: string) => ({
+        apiVersion: 'v1',
+        kind: 'Service',
+        metadata: { name: name, namespace: FakeKubernetesServer.NAMESPACE }
+    });
+
+    test('Generates the manifest of a live object', async () => {
+        assert.strictEqual(
+            await languageService.doGenerateManifest(object('web'), apiService),
+            'apiVersion: v1\nkind: Service\nmetadata:\n  name: web\n  namespace: team\n' +
+                'spec:\n  clusterIP: None\n  ports:\n    - port: 80\n'
+        );
+    });
+
+    test('Generates no manifest for a missing object', async () => {
+        assert.strictEqual(await languageService.doGenerateManifest(object('other'), apiService), undefined);
+    });
+});
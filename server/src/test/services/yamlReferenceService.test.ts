@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { Location, Position } from 'vscode-languageserver';
+import { WorkspaceDocument, YamlReferenceService } from '../../services/yamlReferenceService';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('YamlReferenceService', () => {
+    const languageService = createLanguageService();
+    const resources = createDocument(
+        [
+            'apiVersion: v1',
+            'kind: ConfigMap',
+            'metadata:',
+            '  name: config',
+            '---',
+            'apiVersion: v1',
+            'kind: Service',
+            'metadata:',
+            '  name: web',
+            'spec:',
+            '  selector:',
+            '    app: web',
+            ''
+        ].join('\n'),
+        'file:///test/resources.yaml'
+    );
+    const deployment = createDocument(
+        [
+            'apiVersion: apps/v1',
+            'kind: Deployment',
+            'metadata:',
+            '  name: web',
+            'spec:',
+            '  template:',
+            '    metadata:',
+            '      labels:',
+            '        app: web',
+            '    spec:',
+            '      volumes:',
+            '        - name: config',
+            '          configMap:',
+            '            name: config',
+            ''
+        ].join('\n'),
+        'file:///test/deployment.yaml'
+    );
+    const workspace: WorkspaceDocument[] = [resources, deployment].map((textDocument) => ({
+        textDocument: textDocument,
+        yamlDocuments: languageService.parseYamlDocument(textDocument)
+    }));
+
+    //uri and line of the locations
+    const getLines = (locations: Location[]) => locations.map((location) => [location.uri, location.range.start.line]);
+
+    test('Finds the referenced resource in another document', () => {
+        const locations = languageService.findDefinition(deployment, Position.create(13, 20), workspace);
+        assert.deepStrictEqual(getLines(locations), [[resources.uri, 3]]);
+    });
+
+    test('Finds the references of a resource', () => {
+        const locations = languageService.findReferences(resources, Position.create(3, 10), workspace, true);
+        assert.deepStrictEqual(getLines(locations), [
+            [resources.uri, 3],
+            [deployment.uri, 13]
+        ]);
+    });
+
+    test('Finds the pod labels selected by a selector', () => {
+        const locations = languageService.findDefinition(resources, Position.create(11, 10), workspace);
+        assert.deepStrictEqual(getLines(locations), [[deployment.uri, 7]]);
+    });
+
+    test('Ignores resources of another kind with the same name', () => {
+        const locations = languageService.findReferences(resources, Position.create(8, 9), workspace, false);
+        assert.deepStrictEqual(getLines(locations), []);
+    });
+
+    test('Indexes the resources and references of the workspace', () => {
+        const index = new YamlReferenceService().createIndex(workspace);
+        assert.deepStrictEqual(
+            index.resources.map((resource) => [resource.kind, resource.name, resource.location.uri]),
+            [
+                ['ConfigMap', 'config', resources.uri],
+                ['Service', 'web', resources.uri],
+                ['Deployment', 'web', deployment.uri]
+            ]
+        );
+        assert.deepStrictEqual(
+            index.references.map((reference) => [reference.kind, reference.name, reference.location.uri]),
+            [['ConfigMap', 'config', deployment.uri]]
+        );
+    });
+
+    test('Resolves a subject in the namespace set next to it', async () => {
+        const roleBinding = createDocument(
+            [
+                'apiVersion: rbac.authorization.k8s.io/v1',
+                'kind: RoleBinding',
+                'metadata:',
+                '  name: builders',
+                '  namespace: team',
+                'subjects:',
+                '  - kind: ServiceAccount',
+                '    name: builder',
+                '    namespace: other',
+                'roleRef:',
+                '  apiGroup: rbac.authorization.k8s.io',
+                '  kind: Role',
+                '  name: builder',
+                '---',
+                'apiVersion: v1',
+                'kind: ServiceAccount',
+                'metadata:',
+                '  name: builder',
+                '  namespace: other',
+                ''
+            ].join('\n'),
+            'file:///test/rbac.yaml'
+        );
+        const rbacWorkspace: WorkspaceDocument[] = [
+            { textDocument: roleBinding, yamlDocuments: languageService.parseYamlDocument(roleBinding) }
+        ];
+        const locations = languageService.findDefinition(roleBinding, Position.create(7, 12), rbacWorkspace);
+        assert.deepStrictEqual(getLines(locations), [[roleBinding.uri, 17]]);
+
+        const diagnostics = await languageService.doWorkspaceValidation(roleBinding, rbacWorkspace);
+        assert.ok(!diagnostics.some((diagnostic) => diagnostic.message.includes('ServiceAccount')));
+    });
+});
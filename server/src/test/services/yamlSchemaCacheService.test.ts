@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { YamlSchemaRequestServiceFactory } from '../../factories/yamlSchemaRequestServiceFactory';
+import { YamlLanguageService } from '../../services/yamlLanguageService';
+import { YamlSchemaCacheService } from '../../services/yamlSchemaCacheService';
+import { YamlSchemaRequestService } from '../../services/yamlSchemaRequestService';
+import { JSONSchemaMap } from '../../types/jsonSchema';
+import { createDocument, SERVER_DIR } from '../helper';
+
+suite('YamlSchemaCacheService', () => {
+    let cacheBaseDir: string;
+    let cacheService: YamlSchemaCacheService;
+    //definitions of a cluster which only serves pods with a required node name
+    const definitions: JSONSchemaMap = {
+        'io.k8s.api.core.v1.Pod': {
+            type: 'object',
+            required: ['spec'],
+            properties: {
+                apiVersion: { type: 'string' },
+                kind: { type: 'string' },
+                spec: { $ref: '#/definitions/io.k8s.api.core.v1.PodSpec' }
+            },
+            'x-kubernetes-group-version-kind': [{ group: '', kind: 'Pod', version: 'v1' }]
+        },
+        'io.k8s.api.core.v1.PodSpec': {
+            type: 'object',
+            required: ['nodeName'],
+            properties: { nodeName: { type: 'string' } }
+        }
+    };
+
+    setup(() => {
+        cacheBaseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'schema-cache-'));
+        cacheService = new YamlSchemaCacheService(cacheBaseDir);
+    });
+
+    teardown(() => fs.rmSync(cacheBaseDir, { recursive: true, force: true }));
+
+    test('Keeps the schemas of every cluster in its own directory', () => {
+        const cacheDir = cacheService.getCacheDirectory('https://127.0.0.1:6443');
+        assert.strictEqual(path.dirname(cacheDir), cacheBaseDir);
+        assert.strictEqual(cacheService.getCacheDirectory('https://127.0.0.1:6443'), cacheDir);
+        assert.notStrictEqual(cacheService.getCacheDirectory('https://10.0.0.1:6443'), cacheDir);
+    });
+
+    test('Is valid until the cache timeout expires', async () => {
+        const cacheDir = cacheService.getCacheDirectory('https://127.0.0.1:6443');
+        assert.strictEqual(await cacheService.isCacheValid(cacheDir, 600), false);
+        await cacheService.writeSchemas(cacheDir, definitions);
+        assert.strictEqual(await cacheService.isCacheValid(cacheDir, 600), true);
+        assert.strictEqual(await cacheService.isCacheValid(cacheDir, 0), false);
+    });
+
+    test('Validates documents against the cached schemas', async () => {
+        const cacheDir = cacheService.getCacheDirectory('https://127.0.0.1:6443');
+        await cacheService.writeSchemas(cacheDir, definitions);
+        const schemaRequestService = new YamlSchemaRequestService(SERVER_DIR);
+        schemaRequestService.setSchemaDir(cacheDir);
+        const languageService = new YamlLanguageService({
+            schemaRequestService: YamlSchemaRequestServiceFactory.toSchemaRequestService(schemaRequestService)
+        });
+        languageService.configure({
+            schemas: [{ fileMatch: ['*.yaml'], uri: YamlSchemaRequestService.KUBERNETES_SCHEMA_FILE }]
+        });
+        const document = createDocument('apiVersion: v1\nkind: Pod\nspec:\n  hostname: web\n');
+        const [yamlDocument] = languageService.parseYamlDocument(document);
+        const diagnostics = await languageService.doValidation(document, yamlDocument);
+        assert.deepStrictEqual(
+            diagnostics.map((diagnostic) => diagnostic.message),
+            ['Missing property "nodeName".', 'Property hostname is not allowed.']
+        );
+    });
+});
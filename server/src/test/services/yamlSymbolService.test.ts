@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('YamlSymbolService', () => {
+    const languageService = createLanguageService();
+    const document = createDocument(
+        [
+            'apiVersion: apps/v1',
+            'kind: Deployment',
+            'metadata:',
+            '  name: web',
+            '  namespace: team',
+            'spec:',
+            '  template:',
+            '    spec:',
+            '      containers:',
+            '        - name: nginx',
+            '          image: nginx',
+            '        - image: busybox',
+            '---',
+            'kind: ConfigMap',
+            'data:',
+            '  key: value',
+            '---',
+            'key: value',
+            ''
+        ].join('\n')
+    );
+    const yamlDocuments = languageService.parseYamlDocument(document);
+
+    //path and kind of the symbols and their children
+    const flatten = (symbols: DocumentSymbol[], path = ''): [string, SymbolKind][] =>
+        symbols.flatMap((symbol) => [
+            [path + symbol.name, symbol.kind] as [string, SymbolKind],
+            ...flatten(symbol.children || [], `${path}${symbol.name}.`)
+        ]);
+
+    test('Lists every document as resource', () => {
+        const symbols = languageService.findDocumentSymbols(document, yamlDocuments);
+        assert.deepStrictEqual(
+            symbols.map((symbol) => [symbol.name, symbol.detail, symbol.kind, symbol.range.start.line]),
+            [
+                ['Deployment/web', 'team', SymbolKind.Class, 0],
+                ['ConfigMap', undefined, SymbolKind.Class, 13],
+                ['Document 3', undefined, SymbolKind.Class, 17]
+            ]
+        );
+        assert.strictEqual(symbols[0].selectionRange.start.line, 1);
+    });
+
+    test('Lists the properties of a resource and the items of object sequences', () => {
+        const [deployment] = languageService.findDocumentSymbols(document, yamlDocuments);
+        const spec = deployment.children?.find((symbol) => symbol.name === 'spec');
+        assert.deepStrictEqual(flatten(spec ? [spec] : []), [
+            ['spec', SymbolKind.Module],
+            ['spec.template', SymbolKind.Module],
+            ['spec.template.spec', SymbolKind.Module],
+            ['spec.template.spec.containers', SymbolKind.Array],
+            ['spec.template.spec.containers.nginx', SymbolKind.Object],
+            ['spec.template.spec.containers.nginx.name', SymbolKind.String],
+            ['spec.template.spec.containers.nginx.image', SymbolKind.String],
+            ['spec.template.spec.containers.[1]', SymbolKind.Object],
+            ['spec.template.spec.containers.[1].image', SymbolKind.String]
+        ]);
+    });
+
+    test('Finds the resources whose name matches the query', () => {
+        const find = (query: string) =>
+            languageService.findWorkspaceSymbols(document, yamlDocuments, query).map((symbol) => symbol.name);
+        assert.deepStrictEqual(find('dplweb'), ['Deployment/web']);
+        assert.deepStrictEqual(find('CONFIG'), ['ConfigMap']);
+        assert.deepStrictEqual(find(''), ['Deployment/web', 'ConfigMap', 'Document 3']);
+        assert.deepStrictEqual(find('secret'), []);
+    });
+});
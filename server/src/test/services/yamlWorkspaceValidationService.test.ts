@@ -0,0 +1,200 @@
+import * as assert from 'assert';
+import { Diagnostic } from 'vscode-languageserver';
+import { YamlWorkspaceValidationService } from '../../services/yamlWorkspaceValidationService';
+import { WorkspaceDocument } from '../../services/yamlReferenceService';
+import { KubernetesObjectMetadata, KubernetesObjectProvider } from '../../utils/kubernetes';
+import { ProblemCode } from '../../validation/validationResult';
+import { createDocument, createLanguageService } from '../helper';
+
+suite('YamlWorkspaceValidationService', () => {
+    const languageService = createLanguageService();
+    const service = [
+        'apiVersion: v1',
+        'kind: Service',
+        'metadata:',
+        '  name: web',
+        'spec:',
+        '  selector:',
+        '    app: web',
+        '  ports:',
+        '    - port: 80',
+        '      targetPort: http',
+        ''
+    ].join('\n');
+    const deployment = [
+        'apiVersion: apps/v1',
+        'kind: Deployment',
+        'metadata:',
+        '  name: web',
+        'spec:',
+        '  selector:',
+        '    matchLabels:',
+        '      app: web',
+        '  template:',
+        '    metadata:',
+        '      labels:',
+        '        app: web',
+        '    spec:',
+        '      containers:',
+        '        - name: web',
+        '          ports:',
+        '            - name: http',
+        '              containerPort: 8080',
+        '          livenessProbe:',
+        '            httpGet:',
+        '              port: http',
+        ''
+    ].join('\n');
+
+    //objects of the cluster by kind, the requested kinds and namespaces are recorded
+    const listed: [string, string | undefined][] = [];
+    function createObjectProvider(
+        objects: Record<string, KubernetesObjectMetadata[]> | Error
+    ): KubernetesObjectProvider {
+        listed.length = 0;
+        return {
+            getDefaultNamespace: () => 'default',
+            listObjects: (kind, namespace) => {
+                listed.push([kind, namespace]);
+                return objects instanceof Error ? Promise.reject(objects) : Promise.resolve(objects[kind] || []);
+            },
+            getListedObjects: () => undefined
+        };
+    }
+
+    //validate the first text against the workspace of all texts
+    async function validate(texts: string[], objectProvider?: KubernetesObjectProvider): Promise<Diagnostic[]> {
+        const workspace: WorkspaceDocument[] = texts.map((text, index) => {
+            const textDocument = createDocument(text, `file:///test/resource${index}.yaml`);
+            return { textDocument: textDocument, yamlDocuments: languageService.parseYamlDocument(textDocument) };
+        });
+        return languageService.doWorkspaceValidation(
+            workspace[0].textDocument,
+            workspace,
+            objectProvider && (() => objectProvider)
+        );
+    }
+
+    //code, line and source of the diagnostics
+    const getProblems = (diagnostics: Diagnostic[]) =>
+        diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.range.start.line, diagnostic.source]);
+
+    test('Accepts a service selecting the pods of a deployment', async () => {
+        assert.deepStrictEqual(await validate([service, deployment]), []);
+        assert.deepStrictEqual(await validate([deployment, service]), []);
+    });
+
+    test('Reports a selector matching no pod template', async () => {
+        const diagnostics = await validate([service, deployment.replace(/app: web/g, 'app: api')]);
+        assert.deepStrictEqual(getProblems(diagnostics), [
+            [ProblemCode.UnmatchedSelector, 6, YamlWorkspaceValidationService.WORKSPACE_DIAGNOSTIC_SOURCE]
+        ]);
+    });
+
+    test('Accepts a selector matching the pods of the cluster', async () => {
+        const pods = [{ name: 'web-1', labels: { app: 'web', tier: 'frontend' } }];
+        assert.deepStrictEqual(await validate([service], createObjectProvider({ Pod: pods })), []);
+    });
+
+    test('Reports a selector matching no pod of the workspace and the cluster', async () => {
+        const pods = [{ name: 'api-1', labels: { app: 'api' } }];
+        const diagnostics = await validate([service], createObjectProvider({ Pod: pods }));
+        assert.deepStrictEqual(getProblems(diagnostics), [
+            [ProblemCode.UnmatchedSelector, 6, YamlWorkspaceValidationService.CLUSTER_DIAGNOSTIC_SOURCE]
+        ]);
+    });
+
+    test('Ignores the selector if the pods of the cluster can not be listed', async () => {
+        assert.deepStrictEqual(await validate([service], createObjectProvider(new Error('forbidden'))), []);
+    });
+
+    test('Reports a target port not named by the selected pods', async () => {
+        const diagnostics = await validate([service.replace('targetPort: http', 'targetPort: metrics'), deployment]);
+        assert.deepStrictEqual(getProblems(diagnostics), [
+            [ProblemCode.UndefinedPortName, 9, YamlWorkspaceValidationService.WORKSPACE_DIAGNOSTIC_SOURCE]
+        ]);
+    });
+
+    test('Reports match labels differing from the pod template', async () => {
+        const diagnostics = await validate([deployment.replace('      app: web', '      app: api')]);
+        assert.deepStrictEqual(getProblems(diagnostics), [
+            [ProblemCode.TemplateSelectorMismatch, 7, YamlWorkspaceValidationService.WORKSPACE_DIAGNOSTIC_SOURCE]
+        ]);
+    });
+
+    test('Reports a probe port not named by its container', async () => {
+        const diagnostics = await validate([deployment.replace('port: http', 'port: health')]);
+        assert.deepStrictEqual(getProblems(diagnostics), [
+            [ProblemCode.UndefinedPortName, 20, YamlWorkspaceValidationService.WORKSPACE_DIAGNOSTIC_SOURCE]
+        ]);
+    });
+
+    suite('Cluster references', () => {
+        const pod = [
+            'apiVersion: v1',
+            'kind: Pod',
+            'metadata:',
+            '  name: web',
+            '  namespace: team',
+            'spec:',
+            '  containers:',
+            '    - name: web',
+            '      image: nginx',
+            '  volumes:',
+            '    - name: config',
+            '      configMap:',
+            '        name: web-config',
+            ''
+        ].join('\n');
+        const claim = [
+            'apiVersion: v1',
+            'kind: PersistentVolumeClaim',
+            'metadata:',
+            '  name: data',
+            '  namespace: team',
+            'spec:',
+            '  storageClassName: fast',
+            ''
+        ].join('\n');
+        const team = { name: 'team', labels: {} };
+
+        test('Reports an object missing in the workspace and the cluster', async () => {
+            const objects = { Namespace: [team], ConfigMap: [{ name: 'other', namespace: 'team', labels: {} }] };
+            const diagnostics = await validate([pod], createObjectProvider(objects));
+            assert.deepStrictEqual(getProblems(diagnostics), [
+                [ProblemCode.UndefinedReference, 12, YamlWorkspaceValidationService.CLUSTER_DIAGNOSTIC_SOURCE]
+            ]);
+            assert.deepStrictEqual(listed, [
+                ['Namespace', undefined],
+                ['ConfigMap', 'team']
+            ]);
+        });
+
+        test('Accepts an object of the cluster', async () => {
+            const objects = { Namespace: [team], ConfigMap: [{ name: 'web-config', namespace: 'team', labels: {} }] };
+            assert.deepStrictEqual(await validate([pod], createObjectProvider(objects)), []);
+        });
+
+        test('Does not look up objects defined in the workspace', async () => {
+            const configMap = 'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: web-config\n  namespace: team\n';
+            assert.deepStrictEqual(await validate([pod, configMap], createObjectProvider({ Namespace: [team] })), []);
+            assert.deepStrictEqual(listed, [['Namespace', undefined]]);
+        });
+
+        test('Lists cluster scoped objects without namespace', async () => {
+            const objects = { Namespace: [team], StorageClass: [{ name: 'standard', labels: {} }] };
+            const diagnostics = await validate([claim], createObjectProvider(objects));
+            assert.deepStrictEqual(getProblems(diagnostics), [
+                [ProblemCode.UndefinedReference, 6, YamlWorkspaceValidationService.CLUSTER_DIAGNOSTIC_SOURCE]
+            ]);
+            assert.deepStrictEqual(listed, [
+                ['Namespace', undefined],
+                ['StorageClass', undefined]
+            ]);
+        });
+
+        test('Ignores references if the objects of the cluster can not be listed', async () => {
+            assert.deepStrictEqual(await validate([pod, claim], createObjectProvider(new Error('forbidden'))), []);
+        });
+    });
+});
@@ -4,6 +4,7 @@ export type JSONSchemaRef = JSONSchema | boolean;
 
 export interface JSONSchema extends ParentSchema {
     'x-kubernetes-group-version-kind'?: [KubernetesGroupVersionKind];
+    'x-kubernetes-preserve-unknown-fields'?: boolean;
 }
 
 //nhahn[add]: type for 'x-kubernetes-group-version-kind'
@@ -0,0 +1,117 @@
+export interface KubernetesReferenceType {
+    //path of the property containing the name of the referenced resource, "**" matches any number of properties and "[*]" any sequence item
+    path: string;
+    //kind of the referenced resource
+    kind?: string;
+    //property next to the reference containing the kind of the referenced resource, e.g. kind of a roleRef
+    kindProperty?: string;
+    //property next to the reference containing the namespace of the referenced resource, e.g. namespace of a subject
+    namespaceProperty?: string;
+    //kinds containing the reference, any kind if not set
+    sourceKinds?: string[];
+}
+
+const WORKLOAD_KINDS = ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'ReplicationController', 'Job'];
+
+export const kubernetesReferenceTypes: KubernetesReferenceType[] = [
+    { path: 'metadata.namespace', kind: 'Namespace' },
+    { path: '**.configMapKeyRef.name', kind: 'ConfigMap' },
+    { path: '**.configMapRef.name', kind: 'ConfigMap' },
+    { path: '**.configMap.name', kind: 'ConfigMap' },
+    { path: '**.secretKeyRef.name', kind: 'Secret' },
+    { path: '**.secretRef.name', kind: 'Secret' },
+    { path: '**.secret.secretName', kind: 'Secret' },
+    { path: '**.imagePullSecrets[*].name', kind: 'Secret' },
+    { path: 'spec.tls[*].secretName', kind: 'Secret', sourceKinds: ['Ingress'] },
+    { path: '**.serviceAccountName', kind: 'ServiceAccount' },
+    { path: '**.persistentVolumeClaim.claimName', kind: 'PersistentVolumeClaim' },
+    { path: '**.storageClassName', kind: 'StorageClass' },
+    { path: 'spec.ingressClassName', kind: 'IngressClass', sourceKinds: ['Ingress'] },
+    { path: '**.priorityClassName', kind: 'PriorityClass' },
+    { path: 'spec.rules[*].http.paths[*].backend.service.name', kind: 'Service', sourceKinds: ['Ingress'] },
+    { path: 'spec.defaultBackend.service.name', kind: 'Service', sourceKinds: ['Ingress'] },
+    { path: 'spec.serviceName', kind: 'Service', sourceKinds: ['StatefulSet'] },
+    { path: 'roleRef.name', kindProperty: 'kind', sourceKinds: ['RoleBinding', 'ClusterRoleBinding'] },
+    {
+        path: 'subjects[*].name',
+        kindProperty: 'kind',
+        namespaceProperty: 'namespace',
+        sourceKinds: ['RoleBinding', 'ClusterRoleBinding']
+    },
+    { path: 'spec.scaleTargetRef.name', kindProperty: 'kind', sourceKinds: ['HorizontalPodAutoscaler'] }
+];
+
+//builtin kinds whose resources are not namespaced, references to them ignore the namespace
+export const kubernetesClusterScopedKinds = [
+    'Namespace',
+    'Node',
+    'StorageClass',
+    'ClusterRole',
+    'ClusterRoleBinding',
+    'PersistentVolume',
+    'CustomResourceDefinition',
+    'IngressClass',
+    'PriorityClass',
+    'RuntimeClass',
+    'CSIDriver',
+    'CSINode',
+    'VolumeAttachment',
+    'APIService',
+    'MutatingWebhookConfiguration',
+    'ValidatingWebhookConfiguration',
+    'CertificateSigningRequest',
+    'FlowSchema',
+    'PriorityLevelConfiguration',
+    'ComponentStatus',
+    'TokenReview',
+    'SubjectAccessReview',
+    'SelfSubjectAccessReview',
+    'SelfSubjectRulesReview'
+];
+
+//path of the labels of the pods created by a resource, services select the pods by these labels
+export const kubernetesPodLabelPaths: { [kind: string]: string } = {
+    Pod: 'metadata.labels',
+    CronJob: 'spec.jobTemplate.spec.template.metadata.labels',
+    ...Object.fromEntries(WORKLOAD_KINDS.map((kind) => [kind, 'spec.template.metadata.labels']))
+};
+
+//path of the label selectors selecting pods
+export const kubernetesPodSelectorPaths: { [kind: string]: string } = {
+    Service: 'spec.selector'
+};
+
+//path of the spec of the pods created by a resource
+export const kubernetesPodSpecPaths: { [kind: string]: string } = {
+    Pod: 'spec',
+    CronJob: 'spec.jobTemplate.spec.template.spec',
+    ...Object.fromEntries(WORKLOAD_KINDS.map((kind) => [kind, 'spec.template.spec']))
+};
+
+//path of the selector labels which have to match the labels of the pod template of the same resource
+export const kubernetesTemplateSelectorPaths: { [kind: string]: string } = {
+    Deployment: 'spec.selector.matchLabels',
+    StatefulSet: 'spec.selector.matchLabels',
+    DaemonSet: 'spec.selector.matchLabels',
+    ReplicaSet: 'spec.selector.matchLabels'
+};
+
+//kinds of referenced resources which have to be defined in the workspace or the cluster
+export const kubernetesRequiredReferenceKinds = ['ConfigMap', 'Secret', 'ServiceAccount', 'PersistentVolumeClaim'];
+
+//path of the node selectors, their labels are completed from the labels of the nodes
+export const kubernetesNodeSelectorPath = '**.nodeSelector';
+
+//kinds of referenced resources which are looked up in the cluster if they are not defined in the workspace
+export const kubernetesClusterReferenceKinds = [
+    'Namespace',
+    'StorageClass',
+    'IngressClass',
+    'PriorityClass',
+    'ServiceAccount',
+    'Secret',
+    'ConfigMap'
+];
+
+//resources created by kubernetes in every namespace
+export const kubernetesImplicitResources = [{ kind: 'ServiceAccount', name: 'default' }];
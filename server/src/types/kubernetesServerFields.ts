@@ -0,0 +1,138 @@
+import { kubernetesPodSpecPaths } from './kubernetesReferences';
+
+export interface KubernetesServerField {
+    //path of the field, keys might contain dots like annotations and "*" matches every item of a sequence
+    path: string[];
+    //kinds having the field, any kind if not set
+    kinds?: string[];
+    //default value of the field, the field is only removed if it has this value, any value is removed if not set
+    value?: unknown;
+    //values chosen by the user which are kept, e.g. the cluster ip of a headless service
+    keptValues?: unknown[];
+}
+
+//fields set by the api server or controllers, they are removed from live objects before comparing them to manifests
+export const kubernetesServerFields: KubernetesServerField[] = [
+    { path: ['status'] },
+    { path: ['metadata', 'managedFields'] },
+    { path: ['metadata', 'resourceVersion'] },
+    { path: ['metadata', 'uid'] },
+    { path: ['metadata', 'creationTimestamp'] },
+    { path: ['metadata', 'generation'] },
+    { path: ['metadata', 'selfLink'] },
+    { path: ['metadata', 'deletionTimestamp'] },
+    { path: ['metadata', 'deletionGracePeriodSeconds'] },
+    { path: ['metadata', 'annotations', 'kubectl.kubernetes.io/last-applied-configuration'] },
+    { path: ['metadata', 'annotations', 'deployment.kubernetes.io/revision'], kinds: ['Deployment'] }
+];
+
+const CONTAINER_DEFAULTED_FIELDS: KubernetesServerField[] = [
+    { path: ['terminationMessagePath'], value: '/dev/termination-log' },
+    { path: ['terminationMessagePolicy'], value: 'File' },
+    { path: ['resources'], value: {} },
+    { path: ['ports', '*', 'protocol'], value: 'TCP' }
+];
+
+//fields of a pod spec, relative to the pod spec of each kind creating pods
+const POD_SPEC_DEFAULTED_FIELDS: KubernetesServerField[] = [
+    { path: ['dnsPolicy'], value: 'ClusterFirst' },
+    { path: ['restartPolicy'], value: 'Always' },
+    { path: ['schedulerName'], value: 'default-scheduler' },
+    { path: ['securityContext'], value: {} },
+    { path: ['terminationGracePeriodSeconds'], value: 30 },
+    { path: ['enableServiceLinks'], value: true },
+    { path: ['preemptionPolicy'], value: 'PreemptLowerPriority' },
+    { path: ['priority'], value: 0 },
+    { path: ['serviceAccount'], value: 'default' },
+    { path: ['serviceAccountName'], value: 'default' },
+    ...['containers', 'initContainers'].flatMap((property) =>
+        CONTAINER_DEFAULTED_FIELDS.map((field) => ({ ...field, path: [property, '*', ...field.path] }))
+    )
+];
+
+const JOB_TEMPLATE_LABELS = [
+    'controller-uid',
+    'job-name',
+    'batch.kubernetes.io/controller-uid',
+    'batch.kubernetes.io/job-name'
+];
+
+//fields defaulted or assigned by the api server, they are removed from live objects to generate manifests from them
+export const kubernetesDefaultedFields: KubernetesServerField[] = [
+    ...Object.entries(kubernetesPodSpecPaths).flatMap(([kind, podSpecPath]) =>
+        POD_SPEC_DEFAULTED_FIELDS.map((field) => ({
+            ...field,
+            path: [...podSpecPath.split('.'), ...field.path],
+            kinds: [kind]
+        }))
+    ),
+    { path: ['spec', 'nodeName'], kinds: ['Pod'] },
+    {
+        path: ['spec', 'template', 'metadata', 'creationTimestamp'],
+        kinds: ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'ReplicationController', 'Job']
+    },
+    { path: ['spec', 'jobTemplate', 'metadata', 'creationTimestamp'], kinds: ['CronJob'] },
+    { path: ['spec', 'jobTemplate', 'spec', 'template', 'metadata', 'creationTimestamp'], kinds: ['CronJob'] },
+
+    { path: ['spec', 'replicas'], kinds: ['Deployment', 'StatefulSet', 'ReplicaSet'], value: 1 },
+    { path: ['spec', 'revisionHistoryLimit'], kinds: ['Deployment', 'StatefulSet', 'DaemonSet'], value: 10 },
+    { path: ['spec', 'progressDeadlineSeconds'], kinds: ['Deployment'], value: 600 },
+    {
+        path: ['spec', 'strategy'],
+        kinds: ['Deployment'],
+        value: { type: 'RollingUpdate', rollingUpdate: { maxSurge: '25%', maxUnavailable: '25%' } }
+    },
+    { path: ['spec', 'podManagementPolicy'], kinds: ['StatefulSet'], value: 'OrderedReady' },
+    {
+        path: ['spec', 'updateStrategy'],
+        kinds: ['StatefulSet'],
+        value: { type: 'RollingUpdate', rollingUpdate: { partition: 0 } }
+    },
+    {
+        path: ['spec', 'persistentVolumeClaimRetentionPolicy'],
+        kinds: ['StatefulSet'],
+        value: { whenDeleted: 'Retain', whenScaled: 'Retain' }
+    },
+    {
+        path: ['spec', 'updateStrategy'],
+        kinds: ['DaemonSet'],
+        value: { type: 'RollingUpdate', rollingUpdate: { maxSurge: 0, maxUnavailable: 1 } }
+    },
+
+    { path: ['spec', 'backoffLimit'], kinds: ['Job'], value: 6 },
+    { path: ['spec', 'completions'], kinds: ['Job'], value: 1 },
+    { path: ['spec', 'parallelism'], kinds: ['Job'], value: 1 },
+    { path: ['spec', 'completionMode'], kinds: ['Job'], value: 'NonIndexed' },
+    { path: ['spec', 'suspend'], kinds: ['Job', 'CronJob'], value: false },
+    //the selector and the labels of a job are generated for its pods
+    { path: ['spec', 'selector'], kinds: ['Job'] },
+    ...JOB_TEMPLATE_LABELS.flatMap((label) => [
+        { path: ['metadata', 'labels', label], kinds: ['Job'] },
+        { path: ['spec', 'template', 'metadata', 'labels', label], kinds: ['Job'] }
+    ]),
+    { path: ['spec', 'concurrencyPolicy'], kinds: ['CronJob'], value: 'Allow' },
+    { path: ['spec', 'failedJobsHistoryLimit'], kinds: ['CronJob'], value: 1 },
+    { path: ['spec', 'successfulJobsHistoryLimit'], kinds: ['CronJob'], value: 3 },
+
+    { path: ['spec', 'clusterIP'], kinds: ['Service'], keptValues: ['None'] },
+    { path: ['spec', 'clusterIPs'], kinds: ['Service'], keptValues: [['None']] },
+    { path: ['spec', 'ipFamilies'], kinds: ['Service'] },
+    { path: ['spec', 'ipFamilyPolicy'], kinds: ['Service'], value: 'SingleStack' },
+    { path: ['spec', 'internalTrafficPolicy'], kinds: ['Service'], value: 'Cluster' },
+    { path: ['spec', 'sessionAffinity'], kinds: ['Service'], value: 'None' },
+    { path: ['spec', 'type'], kinds: ['Service'], value: 'ClusterIP' },
+    { path: ['spec', 'ports', '*', 'protocol'], kinds: ['Service'], value: 'TCP' },
+
+    { path: ['spec', 'volumeName'], kinds: ['PersistentVolumeClaim'] },
+    { path: ['spec', 'volumeMode'], kinds: ['PersistentVolumeClaim'], value: 'Filesystem' },
+    { path: ['metadata', 'annotations', 'pv.kubernetes.io/bind-completed'], kinds: ['PersistentVolumeClaim'] },
+    { path: ['metadata', 'annotations', 'pv.kubernetes.io/bound-by-controller'], kinds: ['PersistentVolumeClaim'] },
+    {
+        path: ['metadata', 'annotations', 'volume.beta.kubernetes.io/storage-provisioner'],
+        kinds: ['PersistentVolumeClaim']
+    },
+    { path: ['metadata', 'annotations', 'volume.kubernetes.io/storage-provisioner'], kinds: ['PersistentVolumeClaim'] },
+
+    { path: ['spec', 'finalizers'], kinds: ['Namespace'], value: ['kubernetes'] },
+    { path: ['metadata', 'labels', 'kubernetes.io/metadata.name'], kinds: ['Namespace'] }
+];
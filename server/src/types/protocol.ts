@@ -0,0 +1,129 @@
+import { NotificationType, RequestType, RequestType0 } from 'vscode-languageserver';
+
+export enum KubernetesMode {
+    Online = 'online',
+    Offline = 'offline'
+}
+
+export interface KubernetesModeParams {
+    mode: KubernetesMode;
+    message?: string;
+}
+
+//notifies the client whether completion and validation use the cluster or only the bundled schemas
+export const KubernetesModeNotification = new NotificationType<KubernetesModeParams>(
+    'yamlKubernetesCompletion/kubernetesMode'
+);
+
+export interface KubernetesContextInfo {
+    name: string;
+    cluster: string;
+    namespace?: string;
+}
+
+export interface KubernetesContextsResult {
+    contexts: KubernetesContextInfo[];
+    //context used by the server, either the pinned context or the current context of the kubeconfig
+    currentContext: string;
+    //pinned context of the settings, it might not exist in the kubeconfig anymore
+    pinnedContext: string;
+}
+
+//commands executed by the server with workspace/executeCommand, the first argument is the uri of the document
+export enum KubernetesCommand {
+    DryRun = 'yamlKubernetesCompletion.server.dryRun',
+    //the second argument is the position of the resource in the document
+    Diff = 'yamlKubernetesCompletion.server.diff',
+    //the second argument is the position of the resource, all resources of the document are resolved without it
+    Resolve = 'yamlKubernetesCompletion.server.resolve',
+    //the second argument is the position of the resource, all resources of the document are changed without it,
+    //the third one is the version of the document the changed resources were resolved for
+    Apply = 'yamlKubernetesCompletion.server.apply',
+    Delete = 'yamlKubernetesCompletion.server.delete'
+}
+
+export interface KubernetesCommandResult {
+    success: boolean;
+    message: string;
+}
+
+export interface KubernetesDiffChange {
+    //field path like "spec.template.spec.containers[0].image"
+    path: string;
+    //added to the manifest, removed from the manifest or changed compared to the live object
+    type: 'added' | 'removed' | 'changed';
+    localValue?: unknown;
+    liveValue?: unknown;
+}
+
+export interface KubernetesDiffResult extends KubernetesCommandResult {
+    //resource like Deployment/web
+    resource?: string;
+    //yaml of the live object without server populated fields, empty if the object does not exist
+    live?: string;
+    //yaml of the object the cluster would store for the manifest, the manifest itself if the object does not exist
+    local?: string;
+    changes?: KubernetesDiffChange[];
+}
+
+export interface KubernetesResourceResult {
+    //resource like Deployment/web
+    resource: string;
+    //undefined if the request failed
+    action?: 'created' | 'configured' | 'unchanged' | 'deleted' | 'notFound';
+    error?: string;
+}
+
+export interface KubernetesApplyResult extends KubernetesCommandResult {
+    resources: KubernetesResourceResult[];
+}
+
+export interface KubernetesResolvedResource {
+    //resource like Deployment/web
+    resource: string;
+    //undefined for cluster scoped resources
+    namespace?: string;
+    //context of the cluster the resource is sent to, undefined if the cluster is not available
+    context?: string;
+}
+
+//resources an apply or delete would change, the client names them before asking for confirmation
+export interface KubernetesResolveResult extends KubernetesCommandResult {
+    resources: KubernetesResolvedResource[];
+    version: number;
+}
+
+//lists the contexts of the kubeconfig used by the server
+export const KubernetesContextsRequest = new RequestType0<KubernetesContextsResult, void>(
+    'yamlKubernetesCompletion/kubernetesContexts'
+);
+
+//lists the kinds of the cluster whose objects can be listed and fetched
+export const KubernetesKindsRequest = new RequestType0<string[], void>('yamlKubernetesCompletion/kubernetesKinds');
+
+export interface KubernetesObjectParams {
+    kind: string;
+    name?: string;
+    //namespace of the object, the namespace of the context if not set, objects are listed in all namespaces then
+    namespace?: string;
+}
+
+export interface KubernetesObjectInfo {
+    name: string;
+    namespace?: string;
+}
+
+//lists the objects of a kind in the given namespace or in all namespaces
+export const KubernetesObjectsRequest = new RequestType<KubernetesObjectParams, KubernetesObjectInfo[], void>(
+    'yamlKubernetesCompletion/kubernetesObjects'
+);
+
+export interface KubernetesManifestResult extends KubernetesCommandResult {
+    //yaml of the object without server populated and defaulted fields
+    manifest?: string;
+}
+
+//generates a manifest from a live object
+export const KubernetesManifestRequest = new RequestType<KubernetesObjectParams, KubernetesManifestResult, void>(
+    'yamlKubernetesCompletion/kubernetesManifest'
+);
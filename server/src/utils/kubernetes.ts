@@ -1,15 +1,98 @@
+import { KubernetesObject } from '@kubernetes/client-node';
 import { JSONSchema, KubernetesGroupVersionKind } from '../types/jsonSchema';
+import { KubernetesServerField } from '../types/kubernetesServerFields';
+import { equals } from './objects';
 
 export interface KubernetesResourceInfo {
     groupVersion: string;
     kind: string;
 }
 
+export interface KubernetesServedVersion {
+    groupVersion: string;
+    //plural name of the resource used in the api paths, e.g. deployments
+    name: string;
+    namespaced: boolean;
+    verbs: string[];
+    shortNames: string[];
+}
+
+//all group versions serving a kind, the preferred version comes first
+export type KubernetesResourceMap = Map<string, KubernetesServedVersion[]>;
+
+export interface KubernetesObjectMetadata {
+    name: string;
+    namespace?: string;
+    labels: { [key: string]: string };
+}
+
+//objects of the cluster a document is validated against and completed from
+export interface KubernetesObjectProvider {
+    //namespace of the kubeconfig context, used for resources without namespace
+    getDefaultNamespace(): string;
+    listObjects(kind: string, namespace?: string): Promise<KubernetesObjectMetadata[]>;
+    //objects which are listed already, starts to list them otherwise
+    getListedObjects(kind: string, namespace?: string): KubernetesObjectMetadata[] | undefined;
+}
+
+//changes the objects of the cluster a document belongs to
+export interface KubernetesObjectClient {
+    //get the live object of a manifest, undefined if it does not exist
+    getObject(object: KubernetesObject): Promise<KubernetesObject | undefined>;
+    applyObject(object: KubernetesObject, fieldManager: string, dryRun: boolean): Promise<KubernetesObject>;
+    //delete the live object of a manifest, false if it does not exist
+    deleteObject(object: KubernetesObject): Promise<boolean>;
+}
+
+export interface KubernetesApiDeprecation {
+    groupVersion: string;
+    kind: string;
+    deprecatedIn: string;
+    removedIn: string;
+    replacement?: string;
+}
+
 export class KubernetesValidationUtil {
     public static getGroupVersion(group: string, version: string) {
         return group ? `${group}/${version}` : version;
     }
 
+    //compare kubernetes versions like "1.25" or "v1.25.3" by major and minor version
+    public static compareVersions(version1: string, version2: string): number | undefined {
+        const parsedVersion1 = KubernetesValidationUtil.parseVersion(version1);
+        const parsedVersion2 = KubernetesValidationUtil.parseVersion(version2);
+        if (!parsedVersion1 || !parsedVersion2) {
+            return undefined;
+        }
+        return parsedVersion1[0] - parsedVersion2[0] || parsedVersion1[1] - parsedVersion2[1];
+    }
+
+    //get the deprecation of a resource, if it is already deprecated in the target version
+    public static getDeprecation(
+        deprecations: KubernetesApiDeprecation[],
+        groupVersion: string,
+        kind: string,
+        targetVersion: string
+    ): KubernetesApiDeprecation | undefined {
+        return deprecations.find((deprecation) => {
+            if (deprecation.groupVersion !== groupVersion || deprecation.kind !== kind) {
+                return false;
+            }
+            const comparison = KubernetesValidationUtil.compareVersions(targetVersion, deprecation.deprecatedIn);
+            return comparison !== undefined && comparison >= 0;
+        });
+    }
+
+    public static isRemoved(deprecation: KubernetesApiDeprecation, targetVersion: string): boolean {
+        const comparison = KubernetesValidationUtil.compareVersions(targetVersion, deprecation.removedIn);
+        return comparison !== undefined && comparison >= 0;
+    }
+
+    private static parseVersion(version: string): [number, number] | undefined {
+        const match = version.match(/^v?(\d+)\.(\d+)/);
+        return match ? [Number(match[1]), Number(match[2])] : undefined;
+    }
+
     public static getGroupVersionKindFromSchema(schema: JSONSchema): KubernetesResourceInfo | undefined {
         const groupVersionKindArray = schema['x-kubernetes-group-version-kind'];
         if (groupVersionKindArray) {
@@ -25,4 +108,42 @@ export class KubernetesValidationUtil {
         }
         return undefined;
     }
+
+    //copy an object without the given fields, objects which become empty are removed as well
+    public static removeFields(object: KubernetesObject, fields: KubernetesServerField[]): KubernetesObject {
+        const copy: KubernetesObject = JSON.parse(JSON.stringify(object));
+        for (const field of fields) {
+            if (!field.kinds || (object.kind && field.kinds.includes(object.kind))) {
+                KubernetesValidationUtil.removeField(copy as { [key: string]: unknown }, field);
+            }
+        }
+        return copy;
+    }
+
+    private static removeField(object: { [key: string]: unknown }, field: KubernetesServerField, depth = 0): void {
+        const key = field.path[depth];
+        if (depth === field.path.length - 1) {
+            if (
+                key in object &&
+                (!('value' in field) || equals(object[key], field.value)) &&
+                !field.keptValues?.some((value) => equals(object[key], value))
+            ) {
+                delete object[key];
+            }
+            return;
+        }
+        const child = object[key];
+        if (Array.isArray(child) && field.path[depth + 1] === '*') {
+            for (const item of child) {
+                if (item && typeof item === 'object' && depth + 2 < field.path.length) {
+                    KubernetesValidationUtil.removeField(item, field, depth + 2);
+                }
+            }
+        } else if (child && typeof child === 'object' && !Array.isArray(child)) {
+            KubernetesValidationUtil.removeField(child as { [key: string]: unknown }, field, depth + 1);
+            if (!Object.keys(child).length) {
+                delete object[key];
+            }
+        }
+    }
 }
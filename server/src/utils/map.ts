@@ -0,0 +1,15 @@
+import { equals } from './objects';
+
+export class MapUtils {
+    public static isDifferent<K, V>(map1: Map<K, V>, map2: Map<K, V>): boolean {
+        if (map1.size !== map2.size) {
+            return true;
+        }
+        for (const [key, value] of map1) {
+            if (!map2.has(key) || !equals(map2.get(key), value)) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
@@ -82,3 +82,31 @@ export function stringLength(str: string) {
     }
     return count;
 }
+
+//nhahn[add]: levenshtein distance of two strings
+export function getEditDistance(first: string, second: string): number {
+    let previousRow = Array.from({ length: second.length + 1 }, (_value, index) => index);
+    for (let i = 1; i <= first.length; i++) {
+        const currentRow = [i];
+        for (let j = 1; j <= second.length; j++) {
+            const substitutionCost = first[i - 1] === second[j - 1] ? 0 : 1;
+            currentRow.push(Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + substitutionCost));
+        }
+        previousRow = currentRow;
+    }
+    return previousRow[second.length];
+}
+
+//nhahn[add]: get the candidates closest to the value, candidates differing in more than a third of the value are ignored
+export function getClosestStrings(value: string, candidates: string[], maxResults = 3): string[] {
+    const maxDistance = Math.max(1, Math.floor(value.length / 3));
+    return candidates
+        .map((candidate) => ({
+            candidate: candidate,
+            distance: getEditDistance(value.toLowerCase(), candidate.toLowerCase())
+        }))
+        .filter((match) => match.distance <= maxDistance && match.candidate !== value)
+        .sort((match1, match2) => match1.distance - match2.distance)
+        .slice(0, maxResults)
+        .map((match) => match.candidate);
+}
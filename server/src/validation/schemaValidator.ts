@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { isNumber, equals, isBoolean, isString, isDefined, isObject } from '../utils/objects';
-import { extendedRegExp, stringLength } from '../utils/strings';
+import { extendedRegExp, getClosestStrings, stringLength } from '../utils/strings';
 import {
     ASTNode,
     ObjectASTNode,
@@ -18,7 +18,7 @@ import {
 } from 'vscode-json-languageservice';
 
 import * as l10n from '@vscode/l10n';
-import { ValidationResult } from './validationResult';
+import { ProblemCode, ValidationResult } from './validationResult';
 import { IEvaluationContext, ISchemaCollector, NoOpSchemaCollector } from './schemaCollector';
 import { ValidationUtil } from '../utils/validation';
 import { JSONSchema, JSONSchemaRef } from '../types/jsonSchema';
@@ -321,7 +321,8 @@ export class SchemaValidator {
                             l10n.t(
                                 'Value is not accepted. Valid values: {0}.',
                                 schema.enum.map((v) => JSON.stringify(v)).join(', ')
-                            )
+                            ),
+                        data: { values: schema.enum }
                     });
                 }
             }
@@ -332,7 +333,8 @@ export class SchemaValidator {
                     validationResult.problems.push({
                         location: { offset: node.offset, length: node.length },
                         code: ErrorCode.EnumValueMismatch,
-                        message: schema.errorMessage || l10n.t('Value must be {0}.', JSON.stringify(schema.const))
+                        message: schema.errorMessage || l10n.t('Value must be {0}.', JSON.stringify(schema.const)),
+                        data: { values: [schema.const] }
                     });
                     validationResult.enumValueMatch = false;
                 } else {
@@ -689,7 +691,9 @@ export class SchemaValidator {
                             : { offset: node.offset, length: 1 };
                         validationResult.problems.push({
                             location: location,
-                            message: l10n.t('Missing property "{0}".', propertyName)
+                            code: ProblemCode.MissingProperty,
+                            message: l10n.t('Missing property "{0}".', propertyName),
+                            data: { property: propertyName }
                         });
                     }
                 }
@@ -700,6 +704,22 @@ export class SchemaValidator {
                 validationResult.processedProperties.add(prop);
             };
 
+            //nhahn[add]: report not allowed properties with the properties of the schema the user might have meant
+            const propertyNotAllowed = (propertyNode: PropertyASTNode) => {
+                const propertyName = propertyNode.keyNode.value;
+                const suggestions = getClosestStrings(propertyName, Object.keys(schema.properties || {}));
+                let message = schema.errorMessage || l10n.t('Property {0} is not allowed.', propertyName);
+                if (!schema.errorMessage && suggestions.length) {
+                    message += ' ' + l10n.t('Did you mean {0}?', suggestions.map((s) => `"${s}"`).join(', '));
+                }
+                validationResult.problems.push({
+                    location: { offset: propertyNode.keyNode.offset, length: propertyNode.keyNode.length },
+                    code: ProblemCode.PropertyNotAllowed,
+                    message: message,
+                    data: { property: propertyName, suggestions: suggestions }
+                });
+            };
+
             if (schema.properties) {
                 for (const propertyName of Object.keys(schema.properties)) {
                     propertyProcessed(propertyName);
@@ -708,14 +728,7 @@ export class SchemaValidator {
                     if (child) {
                         if (isBoolean(propertySchema)) {
                             if (!propertySchema) {
-                                const propertyNode = <PropertyASTNode>child.parent;
-                                validationResult.problems.push({
-                                    location: {
-                                        offset: propertyNode.keyNode.offset,
-                                        length: propertyNode.keyNode.length
-                                    },
-                                    message: schema.errorMessage || l10n.t('Property {0} is not allowed.', propertyName)
-                                });
+                                propertyNotAllowed(<PropertyASTNode>child.parent);
                             } else {
                                 validationResult.propertiesMatches++;
                                 validationResult.propertiesValueMatches++;
@@ -748,16 +761,7 @@ export class SchemaValidator {
                                     const propertySchema = schema.patternProperties[propertyPattern];
                                     if (isBoolean(propertySchema)) {
                                         if (!propertySchema) {
-                                            const propertyNode = <PropertyASTNode>child.parent;
-                                            validationResult.problems.push({
-                                                location: {
-                                                    offset: propertyNode.keyNode.offset,
-                                                    length: propertyNode.keyNode.length
-                                                },
-                                                message:
-                                                    schema.errorMessage ||
-                                                    l10n.t('Property {0} is not allowed.', propertyName)
-                                            });
+                                            propertyNotAllowed(<PropertyASTNode>child.parent);
                                         } else {
                                             validationResult.propertiesMatches++;
                                             validationResult.propertiesValueMatches++;
@@ -788,12 +792,7 @@ export class SchemaValidator {
                     const child = seenKeys[propertyName];
                     if (child) {
                         if (additionalProperties === false) {
-                            const propertyNode = <PropertyASTNode>child.parent;
-
-                            validationResult.problems.push({
-                                location: { offset: propertyNode.keyNode.offset, length: propertyNode.keyNode.length },
-                                message: schema.errorMessage || l10n.t('Property {0} is not allowed.', propertyName)
-                            });
+                            propertyNotAllowed(<PropertyASTNode>child.parent);
                         } else if (additionalProperties !== true) {
                             const propertyValidationResult = new ValidationResult();
                             SchemaValidator.validate(
@@ -808,6 +807,22 @@ export class SchemaValidator {
                     }
                 }
             }
+            //nhahn[add]: kubernetes rejects unknown fields of objects with known properties
+            if (
+                additionalProperties === undefined &&
+                schema.unevaluatedProperties === undefined &&
+                schema.properties &&
+                !schema.patternProperties &&
+                !schema['x-kubernetes-preserve-unknown-fields']
+            ) {
+                for (const propertyName of unprocessedProperties) {
+                    propertyProcessed(propertyName);
+                    const child = seenKeys[propertyName];
+                    if (child) {
+                        propertyNotAllowed(<PropertyASTNode>child.parent);
+                    }
+                }
+            }
             const unevaluatedProperties = schema.unevaluatedProperties;
             if (unevaluatedProperties !== undefined) {
                 const processed = [];
@@ -817,15 +832,7 @@ export class SchemaValidator {
                         const child = seenKeys[propertyName];
                         if (child) {
                             if (unevaluatedProperties === false) {
-                                const propertyNode = <PropertyASTNode>child.parent;
-
-                                validationResult.problems.push({
-                                    location: {
-                                        offset: propertyNode.keyNode.offset,
-                                        length: propertyNode.keyNode.length
-                                    },
-                                    message: schema.errorMessage || l10n.t('Property {0} is not allowed.', propertyName)
-                                });
+                                propertyNotAllowed(<PropertyASTNode>child.parent);
                             } else if (unevaluatedProperties !== true) {
                                 const propertyValidationResult = new ValidationResult();
                                 SchemaValidator.validate(
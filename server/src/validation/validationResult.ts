@@ -4,8 +4,34 @@ import * as l10n from '@vscode/l10n';
 export interface IProblem {
     location: IRange;
     severity?: DiagnosticSeverity;
-    code?: ErrorCode;
+    code?: ErrorCode | ProblemCode;
     message: string;
+    //nhahn[add]: data to fix the problem
+    data?: ProblemData;
+}
+
+//nhahn[add]: codes of problems which are not reported by the json language service
+export enum ProblemCode {
+    MissingProperty = 'missingProperty',
+    PropertyNotAllowed = 'propertyNotAllowed',
+    DeprecatedApiVersion = 'deprecatedApiVersion',
+    RemovedApiVersion = 'removedApiVersion',
+    UnmatchedSelector = 'unmatchedSelector',
+    TemplateSelectorMismatch = 'templateSelectorMismatch',
+    UndefinedReference = 'undefinedReference',
+    UndefinedPortName = 'undefinedPortName'
+}
+
+//nhahn[add]: data sent with a diagnostic, code actions use it to fix the problem
+export interface ProblemData {
+    //missing or not allowed property
+    property?: string;
+    //properties with a similar name to a not allowed property
+    suggestions?: string[];
+    //valid values of an enum
+    values?: any[];
+    //api version replacing a deprecated api version
+    replacement?: string;
 }
 
 export interface IRange {
@@ -58,6 +84,7 @@ export class ValidationResult {
                         'Value is not accepted. Valid values: {0}.',
                         this.enumValues.map((v) => JSON.stringify(v)).join(', ')
                     );
+                    error.data = { values: this.enumValues };
                 }
             }
         }
@@ -1,5 +1,29 @@
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import { KubernetesObject } from '@kubernetes/client-node';
 import { Diagnostic } from 'vscode-json-languageservice';
-import { CompletionItem, TextDocumentPositionParams, TextDocuments, _Connection } from 'vscode-languageserver';
+import {
+    CodeAction,
+    CodeActionParams,
+    CompletionItem,
+    CompletionList,
+    DocumentFormattingParams,
+    DocumentRangeFormattingParams,
+    DocumentSymbol,
+    DocumentSymbolParams,
+    DidChangeWatchedFilesParams,
+    ExecuteCommandParams,
+    Hover,
+    Location,
+    Position,
+    ReferenceParams,
+    SymbolInformation,
+    TextDocumentPositionParams,
+    TextDocuments,
+    TextEdit,
+    WorkspaceSymbolParams,
+    _Connection
+} from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { YamlSchemaRequestServiceFactory } from './factories/yamlSchemaRequestServiceFactory';
 import { YamlSchemaRequestService } from './services/yamlSchemaRequestService';
@@ -10,11 +34,48 @@ import {
 } from './services/configurationService';
 import { YamlLanguageService, IYamlLanguageService } from './services/yamlLanguageService';
 import { KubernetsApiService } from './services/kubernetesApiService';
+import { YamlDocument } from './parser/yamlDocument';
+import { YamlSchemaCacheService } from './services/yamlSchemaCacheService';
+import { YamlWorkspaceService } from './services/yamlWorkspaceService';
+import { WorkspaceDocument } from './services/yamlReferenceService';
+import {
+    KubernetesCommand,
+    KubernetesCommandResult,
+    KubernetesContextsRequest,
+    KubernetesDiffResult,
+    KubernetesApplyResult,
+    KubernetesResolveResult,
+    KubernetesResolvedResource,
+    KubernetesResourceResult,
+    KubernetesContextsResult,
+    KubernetesKindsRequest,
+    KubernetesManifestRequest,
+    KubernetesManifestResult,
+    KubernetesMode,
+    KubernetesModeNotification,
+    KubernetesObjectInfo,
+    KubernetesObjectParams,
+    KubernetesObjectsRequest
+} from './types/protocol';
+import { KubernetesApiDeprecation } from './utils/kubernetes';
+import { ValidationUtil } from './utils/validation';
 
 export class YamlLanguageServer {
     private languageService: IYamlLanguageService;
     private configurationService: ConfigurationService;
     private kubernetesApiService: KubernetsApiService | undefined;
+    //services of the contexts selected by documents, undefined if the context could not be loaded
+    private contextKubernetesApiServices: Map<string, KubernetsApiService | undefined>;
+    private schemaRequestService: YamlSchemaRequestService;
+    private schemaCacheService: YamlSchemaCacheService;
+    private workspaceService: YamlWorkspaceService;
+    private kubernetesMode: KubernetesMode | undefined;
+    private apiDeprecations: KubernetesApiDeprecation[] = [];
+    //parsed documents of the last validated version, the workspace validation parses all associated files
+    private parsedDocuments = new WeakMap<TextDocument, { version: number; yamlDocuments: YamlDocument[] }>();
+    private static readonly API_DEPRECATIONS_FILE = path.join('deprecations', 'apiDeprecations.json');
+    //problems reported by the last dry run, apply or delete of a document, until the document changes
+    private commandDiagnostics = new Map<string, { version: number; diagnostics: Diagnostic[] }>();
     private static instance: YamlLanguageServer | null = null;
 
     public static getInstance(
@@ -33,8 +94,12 @@ export class YamlLanguageServer {
         private documents: TextDocuments<TextDocument>,
         private baseUri: string
     ) {
+        this.schemaRequestService = new YamlSchemaRequestService(this.baseUri);
+        this.schemaCacheService = new YamlSchemaCacheService();
+        this.workspaceService = new YamlWorkspaceService(this.documents);
+        this.contextKubernetesApiServices = new Map();
         this.languageService = new YamlLanguageService({
-            schemaRequestService: YamlSchemaRequestServiceFactory.getSchemaRequestService(this.baseUri)
+            schemaRequestService: YamlSchemaRequestServiceFactory.toSchemaRequestService(this.schemaRequestService)
         });
         this.configurationService = new ConfigurationService(connection);
 
@@ -43,7 +108,20 @@ export class YamlLanguageServer {
         this.configurationService.onConfigInitialized(this.onConfigInitialized.bind(this));
         this.connection.onCompletion(this.onCompletion.bind(this));
         this.connection.onCompletionResolve(this.onResolve.bind(this));
-        //this.connection.onDidChangeWatchedFiles()
+        this.connection.onHover(this.onHover.bind(this));
+        this.connection.onCodeAction(this.onCodeAction.bind(this));
+        this.connection.onDocumentSymbol(this.onDocumentSymbol.bind(this));
+        this.connection.onWorkspaceSymbol(this.onWorkspaceSymbol.bind(this));
+        this.connection.onDefinition(this.onDefinition.bind(this));
+        this.connection.onReferences(this.onReferences.bind(this));
+        this.connection.onDocumentFormatting(this.onDocumentFormatting.bind(this));
+        this.connection.onDocumentRangeFormatting(this.onDocumentRangeFormatting.bind(this));
+        this.connection.onRequest(KubernetesContextsRequest, this.onKubernetesContexts.bind(this));
+        this.connection.onRequest(KubernetesKindsRequest, this.onKubernetesKinds.bind(this));
+        this.connection.onRequest(KubernetesObjectsRequest, this.onKubernetesObjects.bind(this));
+        this.connection.onRequest(KubernetesManifestRequest, this.onKubernetesManifest.bind(this));
+        this.connection.onExecuteCommand(this.onExecuteCommand.bind(this));
+        this.connection.onDidChangeWatchedFiles(this.onDidChangeWatchedFiles.bind(this));
         //this.connection.onCompletionResolve()
 
         // The content of a text document has changed. This event is emitted
@@ -51,6 +129,16 @@ export class YamlLanguageServer {
         this.documents.onDidChangeContent((change) => {
             this.validateTextDocument(change.document);
         });
+        this.documents.onDidSave((change) => {
+            const validationSettings = this.configurationService.getCurrentSettings().validation;
+            if (
+                validationSettings.dryRunOnSave &&
+                this.kubernetesMode === KubernetesMode.Online &&
+                this.workspaceService.isAssociatedFile(change.document.uri, validationSettings.associatedFiles)
+            ) {
+                this.dryRunTextDocument(change.document);
+            }
+        });
 
         // Make the text document manager listen on the connection
         // for open, change and close text document events
@@ -62,40 +150,234 @@ export class YamlLanguageServer {
 
     private onConfigChange(settingsDiff: YamlKubernetesCompletionSettingsDiff) {
         //reinitilize kubernetes service if config for it was changed
-        if (settingsDiff.diff.changed.includes('validation')) {
+        if (settingsDiff.diff.changed.includes('validation') || settingsDiff.diff.changed.includes('completion')) {
             this.configureLanguageService(settingsDiff.settings);
+            this.validateAllTextDocuments();
         }
         if (settingsDiff.diff.changed.includes('kubectl')) {
             this.createNewKubernetesApiService(settingsDiff.settings);
         }
+        if (settingsDiff.diff.changed.includes('format')) {
+            this.configureLanguageService(settingsDiff.settings);
+        }
     }
 
     private onConfigInitialized(settings: YamlKubernetesCompletionSettings) {
-        //configure language service
-        this.configureLanguageService(settings);
-        //initialize kubernetes service
-        this.createNewKubernetesApiService(settings);
+        this.loadApiDeprecations().then(() => {
+            //configure language service
+            this.configureLanguageService(settings);
+            //initialize kubernetes service
+            this.createNewKubernetesApiService(settings);
+        });
+    }
+
+    private loadApiDeprecations(): Promise<void> {
+        return fsPromises.readFile(path.join(this.baseUri, YamlLanguageServer.API_DEPRECATIONS_FILE)).then(
+            (buffer) => {
+                this.apiDeprecations = JSON.parse(buffer.toString()).deprecations;
+            },
+            (error) => {
+                //deprecated apis are only reported if the bundled table can be loaded
+                console.error(error);
+            }
+        );
     }
 
     private onKubernetesStarted(): void {
-        this.languageService.configureKubernetes({ resourceInfo: this.kubernetesApiService?.getResourceInfo() });
-        //validate documents if ready
-        for (const document of this.documents.all()) {
-            this.validateTextDocument(document);
+        this.kubernetesApiService?.onResourcesChanged(this.onKubernetesResourcesChanged.bind(this));
+        this.setKubernetesMode(KubernetesMode.Online);
+        this.updateKubernetesResources();
+    }
+
+    private startOfflineMode(settings: YamlKubernetesCompletionSettings, reason: string): Promise<void> {
+        if (this.kubernetesApiService) {
+            this.kubernetesApiService.stop();
+            this.kubernetesApiService = undefined;
         }
+        //without cluster all bundled schemas are used
+        return this.configureSchemaSource(settings).then(() => {
+            this.setKubernetesMode(KubernetesMode.Offline, reason);
+            this.updateKubernetesResources();
+        });
+    }
+
+    private setKubernetesMode(mode: KubernetesMode, message?: string): void {
+        this.kubernetesMode = mode;
+        if (message) {
+            this.connection.console.log(message);
+        }
+        this.connection.sendNotification(KubernetesModeNotification, { mode: mode, message: message });
+    }
+
+    private onKubernetesResourcesChanged(): void {
+        //schemas of the cluster might have changed as well, e.g. by installing a new operator
+        this.configureSchemaSource(this.configurationService.getCurrentSettings(), true).then(
+            this.updateKubernetesResources.bind(this)
+        );
+    }
+
+    private updateKubernetesResources(): void {
+        this.languageService.configureKubernetes({
+            resourceInfo: this.kubernetesApiService?.getResourceInfo(),
+            customResourceSchemas: this.kubernetesApiService?.getCustomResourceSchemas(),
+            serverVersion: this.kubernetesApiService?.getServerVersion()
+        });
+        this.validateAllTextDocuments();
+    }
+
+    private startContextKubernetesApiServices(yamlDocuments: YamlDocument[]): void {
+        //documents can only select another cluster if the default cluster is used as well
+        if (this.kubernetesMode !== KubernetesMode.Online) {
+            return;
+        }
+        for (const yamlDocument of yamlDocuments) {
+            const context = yamlDocument.getKubernetesContext();
+            if (
+                context &&
+                context !== this.kubernetesApiService?.getContextName() &&
+                !this.contextKubernetesApiServices.has(context)
+            ) {
+                this.createContextKubernetesApiService(context);
+            }
+        }
+    }
+
+    private createContextKubernetesApiService(context: string): void {
+        const settings = this.configurationService.getCurrentSettings();
+        let kubernetesApiService: KubernetsApiService;
+        try {
+            kubernetesApiService = new KubernetsApiService({
+                ...settings,
+                kubectl: { ...settings.kubectl, context: context }
+            });
+        } catch (error) {
+            //remember the context to not try again for every validation
+            this.contextKubernetesApiServices.set(context, undefined);
+            this.connection.console.log(`Unable to load kubernetes context ${context}: ${error}`);
+            return;
+        }
+        this.contextKubernetesApiServices.set(context, kubernetesApiService);
+
+        kubernetesApiService.start().then(
+            () => {
+                if (this.contextKubernetesApiServices.get(context) !== kubernetesApiService) {
+                    return;
+                }
+                kubernetesApiService.onResourcesChanged(() => this.updateContextKubernetesResources(context));
+                this.updateContextKubernetesResources(context);
+            },
+            (error) => {
+                this.connection.console.log(`Unable to discover resources of kubernetes context ${context}: ${error}`);
+            }
+        );
+    }
+
+    private updateContextKubernetesResources(context: string): void {
+        const kubernetesApiService = this.contextKubernetesApiServices.get(context);
+        this.languageService.configureKubernetes({
+            context: context,
+            resourceInfo: kubernetesApiService?.getResourceInfo(),
+            customResourceSchemas: kubernetesApiService?.getCustomResourceSchemas(),
+            serverVersion: kubernetesApiService?.getServerVersion()
+        });
+        this.validateAllTextDocuments();
+    }
+
+    //api service of the cluster selected by the document, undefined if the cluster is not available
+    private getKubernetesApiService(yamlDocument: YamlDocument): KubernetsApiService | undefined {
+        if (this.kubernetesMode !== KubernetesMode.Online) {
+            return undefined;
+        }
+        const context = yamlDocument.getKubernetesContext();
+        const kubernetesApiService =
+            context && context !== this.kubernetesApiService?.getContextName()
+                ? this.contextKubernetesApiServices.get(context)
+                : this.kubernetesApiService;
+        return kubernetesApiService?.isInitialized() ? kubernetesApiService : undefined;
+    }
+
+    private stopContextKubernetesApiServices(): void {
+        for (const [context, kubernetesApiService] of this.contextKubernetesApiServices) {
+            kubernetesApiService?.stop();
+            this.languageService.configureKubernetes({ context: context });
+        }
+        this.contextKubernetesApiServices.clear();
     }
 
     private createNewKubernetesApiService(settings: YamlKubernetesCompletionSettings): Promise<void> {
         if (this.kubernetesApiService) {
             this.kubernetesApiService.stop();
         }
-        this.kubernetesApiService = new KubernetsApiService(settings);
-        return this.kubernetesApiService.start().then(this.onKubernetesStarted.bind(this));
+        this.stopContextKubernetesApiServices();
+        this.kubernetesMode = undefined;
+
+        if (settings.kubectl.offline) {
+            return this.startOfflineMode(settings, 'Offline mode is enabled in the settings.');
+        }
+        try {
+            this.kubernetesApiService = new KubernetsApiService(settings);
+        } catch (error) {
+            return this.startOfflineMode(settings, `Unable to load kubernetes config, using offline mode: ${error}`);
+        }
+        const kubernetesApiService = this.kubernetesApiService;
+        //the settings might change while the service starts, a replaced service must not configure the server
+        const isCurrent = () => this.kubernetesApiService === kubernetesApiService;
+
+        return kubernetesApiService
+            .start()
+            .then(async () => {
+                if (isCurrent()) {
+                    await this.configureSchemaSource(settings);
+                }
+                if (isCurrent()) {
+                    this.onKubernetesStarted();
+                }
+            })
+            .catch((error) => {
+                if (isCurrent()) {
+                    return this.startOfflineMode(
+                        settings,
+                        `Unable to discover cluster resources, using offline mode: ${error}`
+                    );
+                }
+            });
+    }
+
+    private async configureSchemaSource(
+        settings: YamlKubernetesCompletionSettings,
+        ignoreCache = false
+    ): Promise<void> {
+        const clusterServer = this.kubernetesApiService?.getClusterServer();
+        let schemaDir: string | undefined = undefined;
+
+        if (settings.kubectl.useClusterSchemas && this.kubernetesApiService && clusterServer) {
+            const cacheDir = this.schemaCacheService.getCacheDirectory(clusterServer);
+            try {
+                const isCacheValid =
+                    !ignoreCache &&
+                    (await this.schemaCacheService.isCacheValid(cacheDir, settings.kubectl.cacheTimeout));
+                if (!isCacheValid) {
+                    const definitions = await this.kubernetesApiService.getOpenApiDefinitions();
+                    await this.schemaCacheService.writeSchemas(cacheDir, definitions);
+                }
+                schemaDir = cacheDir;
+            } catch (error) {
+                //keep using the bundled schemas
+                console.error(error);
+            }
+        }
+        this.schemaRequestService.setSchemaDir(schemaDir);
+        //reload schemas from the chosen source
+        this.configureLanguageService(settings);
     }
 
     private configureLanguageService(settings: YamlKubernetesCompletionSettings) {
         this.languageService.configure({
             allowComments: true,
+            indentation: settings.completion.indentation,
+            apiDeprecations: this.apiDeprecations,
+            kubernetesVersion: settings.validation.kubernetesVersion,
+            format: settings.format,
             schemas: [
                 {
                     fileMatch: settings.validation.associatedFiles,
@@ -105,19 +387,53 @@ export class YamlLanguageServer {
         });
     }
 
+    private validateAllTextDocuments(): void {
+        //validate documents if ready
+        for (const document of this.documents.all()) {
+            this.validateTextDocument(document);
+        }
+    }
+
     private async validateTextDocument(textDocument: TextDocument): Promise<void> {
-        if (!this.configurationService.isInitialized() || !this.kubernetesApiService?.isInitialized()) {
+        if (!this.configurationService.isInitialized() || !this.kubernetesMode) {
             return Promise.resolve();
         }
 
         const diagnostics: Diagnostic[] = [];
-        const yamlDocuments = this.languageService.parseYamlDocument(textDocument);
+        const yamlDocuments = this.parseYamlDocuments(textDocument);
         const promiseArray: Thenable<Diagnostic[]>[] = [];
+        this.startContextKubernetesApiServices(yamlDocuments);
 
         for (const yamlDocument of yamlDocuments) {
             diagnostics.push(...yamlDocument.syntaxErrors);
             promiseArray.push(this.languageService.doValidation(textDocument, yamlDocument));
         }
+        //validate the references between the resources of all associated files
+        const validationSettings = this.configurationService.getCurrentSettings().validation;
+        if (this.workspaceService.isAssociatedFile(textDocument.uri, validationSettings.associatedFiles)) {
+            const getObjectProvider = validationSettings.clusterReferences
+                ? this.getKubernetesApiService.bind(this)
+                : undefined;
+            promiseArray.push(
+                this.getWorkspaceDocuments(textDocument)
+                    .then((workspace) =>
+                        this.languageService.doWorkspaceValidation(textDocument, workspace, getObjectProvider)
+                    )
+                    .catch((error) => {
+                        //the schema problems are reported even if the other files or the cluster can not be read
+                        console.error(error);
+                        return [];
+                    })
+            );
+        }
+
+        //problems reported by the cluster are kept until the document changes
+        const commandDiagnostics = this.commandDiagnostics.get(textDocument.uri);
+        if (commandDiagnostics?.version === textDocument.version) {
+            diagnostics.push(...commandDiagnostics.diagnostics);
+        } else {
+            this.commandDiagnostics.delete(textDocument.uri);
+        }
 
         Promise.all(promiseArray).then((diagnosticComp) => {
             for (const diagnosticArray of diagnosticComp) {
@@ -132,32 +448,422 @@ export class YamlLanguageServer {
         return this.languageService.doResolve(completionItem);
     }
 
-    public async onCompletion(textDocumentPosition: TextDocumentPositionParams): Promise<CompletionItem[]> {
+    public async onCompletion(
+        textDocumentPosition: TextDocumentPositionParams
+    ): Promise<CompletionList | CompletionItem[]> {
         const textDocument = this.documents.get(textDocumentPosition.textDocument.uri);
 
         if (!textDocument) {
             return Promise.resolve([]);
         }
 
-        const yamlDocuments = this.languageService.parseYamlDocument(textDocument);
-        const currentOffset = textDocument.offsetAt(textDocumentPosition.position);
-        let currentYamlDoc;
-
-        for (const yamlDocument of yamlDocuments) {
-            if (currentOffset >= yamlDocument.range.startOffset && currentOffset <= yamlDocument.range.endOffset) {
-                currentYamlDoc = yamlDocument;
-                break;
-            }
-        }
+        const currentYamlDoc = this.getYamlDocumentAtPosition(textDocument, textDocumentPosition);
 
         if (!currentYamlDoc) {
             return Promise.resolve([]);
         }
 
+        //names of cluster objects are completed as soon as they are listed, the list stays incomplete until then
         return this.languageService
-            .doComplete(textDocument, textDocumentPosition.position, currentYamlDoc)
+            .doComplete(
+                textDocument,
+                textDocumentPosition.position,
+                currentYamlDoc,
+                this.getKubernetesApiService(currentYamlDoc)
+            )
             .then((list) => {
-                return list ? list.items : [];
+                return list ? list : [];
             });
     }
+
+    public async onHover(textDocumentPosition: TextDocumentPositionParams): Promise<Hover | null> {
+        const textDocument = this.documents.get(textDocumentPosition.textDocument.uri);
+
+        if (!textDocument) {
+            return Promise.resolve(null);
+        }
+
+        const currentYamlDoc = this.getYamlDocumentAtPosition(textDocument, textDocumentPosition);
+
+        if (!currentYamlDoc) {
+            return Promise.resolve(null);
+        }
+
+        return this.languageService.doHover(textDocument, textDocumentPosition.position, currentYamlDoc);
+    }
+
+    public async onCodeAction(params: CodeActionParams): Promise<CodeAction[]> {
+        const textDocument = this.documents.get(params.textDocument.uri);
+
+        if (!textDocument) {
+            return Promise.resolve([]);
+        }
+
+        //fix the diagnostics of every yaml document with the schema of that document
+        const yamlDocuments = this.languageService.parseYamlDocument(textDocument);
+        const promiseArray: Thenable<CodeAction[]>[] = [];
+        for (const yamlDocument of yamlDocuments) {
+            const diagnostics = params.context.diagnostics.filter((diagnostic) =>
+                yamlDocument.isOffsetInDocument(textDocument.offsetAt(diagnostic.range.start))
+            );
+            if (diagnostics.length) {
+                promiseArray.push(this.languageService.doCodeActions(textDocument, diagnostics, yamlDocument));
+            }
+        }
+        return Promise.all(promiseArray).then((codeActions) => codeActions.flat());
+    }
+
+    public async onDocumentSymbol(params: DocumentSymbolParams): Promise<DocumentSymbol[]> {
+        const textDocument = this.documents.get(params.textDocument.uri);
+
+        if (!textDocument) {
+            return Promise.resolve([]);
+        }
+
+        const yamlDocuments = this.languageService.parseYamlDocument(textDocument);
+        return this.languageService.findDocumentSymbols(textDocument, yamlDocuments);
+    }
+
+    public async onDocumentFormatting(params: DocumentFormattingParams): Promise<TextEdit[]> {
+        const textDocument = this.documents.get(params.textDocument.uri);
+        return textDocument ? this.languageService.doFormat(textDocument) : [];
+    }
+
+    public async onDocumentRangeFormatting(params: DocumentRangeFormattingParams): Promise<TextEdit[]> {
+        const textDocument = this.documents.get(params.textDocument.uri);
+        return textDocument ? this.languageService.doFormat(textDocument, params.range) : [];
+    }
+
+    public async onWorkspaceSymbol(params: WorkspaceSymbolParams): Promise<SymbolInformation[]> {
+        const workspace = await this.getWorkspaceDocuments();
+        return workspace.flatMap(({ textDocument, yamlDocuments }) =>
+            this.languageService.findWorkspaceSymbols(textDocument, yamlDocuments, params.query)
+        );
+    }
+
+    public async onDefinition(textDocumentPosition: TextDocumentPositionParams): Promise<Location[]> {
+        const textDocument = this.documents.get(textDocumentPosition.textDocument.uri);
+
+        if (!textDocument) {
+            return Promise.resolve([]);
+        }
+
+        const workspace = await this.getWorkspaceDocuments(textDocument);
+        return this.languageService.findDefinition(textDocument, textDocumentPosition.position, workspace);
+    }
+
+    public async onReferences(params: ReferenceParams): Promise<Location[]> {
+        const textDocument = this.documents.get(params.textDocument.uri);
+
+        if (!textDocument) {
+            return Promise.resolve([]);
+        }
+
+        const workspace = await this.getWorkspaceDocuments(textDocument);
+        return this.languageService.findReferences(
+            textDocument,
+            params.position,
+            workspace,
+            params.context.includeDeclaration
+        );
+    }
+
+    //parse all associated files of the workspace, including the current document even if it is not associated
+    private async getWorkspaceDocuments(currentDocument?: TextDocument): Promise<WorkspaceDocument[]> {
+        const textDocuments = await this.workspaceService.getWorkspaceDocuments(
+            this.configurationService.getWorkspaceFolders(),
+            this.configurationService.getCurrentSettings().validation.associatedFiles
+        );
+        if (currentDocument && !textDocuments.some((textDocument) => textDocument.uri === currentDocument.uri)) {
+            textDocuments.push(currentDocument);
+        }
+        return textDocuments.map((textDocument) => ({
+            textDocument: textDocument,
+            yamlDocuments: this.parseYamlDocuments(textDocument)
+        }));
+    }
+
+    //resources at the position or all resources of the document
+    private getCommandYamlDocuments(textDocument: TextDocument, position?: Position): YamlDocument[] {
+        const yamlDocuments = this.parseYamlDocuments(textDocument);
+        if (!position) {
+            return yamlDocuments;
+        }
+        const offset = textDocument.offsetAt(position);
+        return yamlDocuments.filter((yamlDocument) => yamlDocument.isOffsetInDocument(offset));
+    }
+
+    private parseYamlDocuments(textDocument: TextDocument): YamlDocument[] {
+        const parsedDocument = this.parsedDocuments.get(textDocument);
+        if (parsedDocument && parsedDocument.version === textDocument.version) {
+            return parsedDocument.yamlDocuments;
+        }
+        const yamlDocuments = this.languageService.parseYamlDocument(textDocument);
+        this.parsedDocuments.set(textDocument, { version: textDocument.version, yamlDocuments: yamlDocuments });
+        return yamlDocuments;
+    }
+
+    //files changed outside of the editor, the workspace validation of the open documents depends on them
+    public onDidChangeWatchedFiles(params: DidChangeWatchedFilesParams): void {
+        this.workspaceService.onFilesChanged(params.changes);
+        this.validateAllTextDocuments();
+    }
+
+    public async onExecuteCommand(params: ExecuteCommandParams): Promise<KubernetesCommandResult | undefined> {
+        const uri = params.arguments?.[0];
+        const textDocument = typeof uri === 'string' ? this.documents.get(uri) : undefined;
+        if (!textDocument) {
+            return { success: false, message: `Document ${uri} is not open` };
+        }
+        if (this.kubernetesMode !== KubernetesMode.Online) {
+            return { success: false, message: 'The cluster is not available in offline mode' };
+        }
+
+        switch (params.command) {
+            case KubernetesCommand.DryRun: {
+                const diagnostics = await this.dryRunTextDocument(textDocument);
+                return diagnostics.length
+                    ? { success: false, message: `Dry run reported ${diagnostics.length} problem(s)` }
+                    : { success: true, message: 'Dry run succeeded' };
+            }
+            case KubernetesCommand.Diff:
+                return this.diffYamlDocument(textDocument, params.arguments?.[1]);
+            case KubernetesCommand.Resolve:
+                return this.resolveTextDocument(textDocument, params.arguments?.[1]);
+            case KubernetesCommand.Apply:
+            case KubernetesCommand.Delete:
+                return this.changeTextDocument(
+                    textDocument,
+                    params.command,
+                    params.arguments?.[1],
+                    params.arguments?.[2]
+                );
+        }
+        return undefined;
+    }
+
+    //compare the resource at the position to its live object, the client shows both in a diff editor
+    private async diffYamlDocument(textDocument: TextDocument, position: Position): Promise<KubernetesDiffResult> {
+        const yamlDocument = position
+            ? this.getYamlDocumentAtPosition(textDocument, { textDocument: textDocument, position: position })
+            : undefined;
+        const kubernetesApiService = yamlDocument && this.getKubernetesApiService(yamlDocument);
+        if (!yamlDocument || !kubernetesApiService) {
+            return { success: false, message: 'No resource of an available cluster at the position' };
+        }
+
+        try {
+            const diff = await this.languageService.doDiff(
+                yamlDocument,
+                kubernetesApiService,
+                this.configurationService.getCurrentSettings().kubectl.fieldManager
+            );
+            if (!diff) {
+                return { success: false, message: 'No resource at the position' };
+            }
+            const message = diff.live
+                ? `${diff.resource} has ${diff.changes.length} change(s) compared to the cluster`
+                : `${diff.resource} does not exist in the cluster`;
+            return { success: true, message: message, ...diff };
+        } catch (error) {
+            const status = KubernetsApiService.getErrorStatus(error);
+            return { success: false, message: `Unable to compare the resource: ${status?.message || error}` };
+        }
+    }
+
+    //name the resources an apply or delete would change with their clusters, the client lists them to confirm them
+    private resolveTextDocument(textDocument: TextDocument, position?: Position): KubernetesResolveResult {
+        const resources = this.getCommandYamlDocuments(textDocument, position).flatMap(
+            (yamlDocument): KubernetesResolvedResource[] => {
+                const root = yamlDocument.root;
+                if (!root || root.type !== 'object') {
+                    return [];
+                }
+                const object: KubernetesObject = ValidationUtil.getNodeValue(root);
+                const kubernetesApiService = this.getKubernetesApiService(yamlDocument);
+                const servedVersion = kubernetesApiService
+                    ?.getResourceInfo()
+                    .get(object.kind || '')
+                    ?.find((version) => version.groupVersion === object.apiVersion);
+                return [
+                    {
+                        resource: `${object.kind}/${object.metadata?.name}`,
+                        namespace:
+                            servedVersion?.namespaced === false
+                                ? undefined
+                                : object.metadata?.namespace || kubernetesApiService?.getDefaultNamespace(),
+                        context: kubernetesApiService?.getContextName()
+                    }
+                ];
+            }
+        );
+        if (!resources.length) {
+            return {
+                success: false,
+                message: 'No resource to send to the cluster',
+                resources: [],
+                version: textDocument.version
+            };
+        }
+        return {
+            success: true,
+            message: `${resources.length} resource(s) to send to the cluster`,
+            resources: resources,
+            version: textDocument.version
+        };
+    }
+
+    //apply or delete the resource at the position or all resources of the document, the client confirms it before
+    private async changeTextDocument(
+        textDocument: TextDocument,
+        command: KubernetesCommand.Apply | KubernetesCommand.Delete,
+        position?: Position,
+        confirmedVersion?: number
+    ): Promise<KubernetesApplyResult> {
+        const version = textDocument.version;
+        //the user confirmed the resources of this version, others might be changed now
+        if (typeof confirmedVersion === 'number' && confirmedVersion !== version) {
+            return { success: false, message: 'The document was changed after the confirmation', resources: [] };
+        }
+        const yamlDocuments = this.getCommandYamlDocuments(textDocument, position);
+
+        const outcome =
+            command === KubernetesCommand.Apply
+                ? await this.languageService.doApply(
+                      textDocument,
+                      yamlDocuments,
+                      this.getKubernetesApiService.bind(this),
+                      this.configurationService.getCurrentSettings().kubectl.fieldManager
+                  )
+                : await this.languageService.doDelete(
+                      textDocument,
+                      yamlDocuments,
+                      this.getKubernetesApiService.bind(this)
+                  );
+        this.setCommandDiagnostics(textDocument, version, outcome.diagnostics);
+
+        if (!outcome.resources.length) {
+            return { success: false, message: 'No resource to send to the cluster', resources: [] };
+        }
+        const message = outcome.resources.map((result) => this.getResourceResultMessage(result)).join(', ');
+        return {
+            success: outcome.resources.every((result) => result.action),
+            message: message,
+            resources: outcome.resources
+        };
+    }
+
+    private getResourceResultMessage(result: KubernetesResourceResult): string {
+        switch (result.action) {
+            case undefined:
+                return `${result.resource} failed: ${result.error}`;
+            case 'notFound':
+                return `${result.resource} not found`;
+            default:
+                return `${result.resource} ${result.action}`;
+        }
+    }
+
+    //send the resources of the document as dry run to the cluster and show the problems next to the others
+    private async dryRunTextDocument(textDocument: TextDocument): Promise<Diagnostic[]> {
+        const version = textDocument.version;
+        const diagnostics = await this.languageService.doDryRun(
+            textDocument,
+            this.parseYamlDocuments(textDocument),
+            this.getKubernetesApiService.bind(this),
+            this.configurationService.getCurrentSettings().kubectl.fieldManager
+        );
+        this.setCommandDiagnostics(textDocument, version, diagnostics);
+        return diagnostics;
+    }
+
+    private setCommandDiagnostics(textDocument: TextDocument, version: number, diagnostics: Diagnostic[]): void {
+        //the document might have changed in the meantime
+        if (textDocument.version === version) {
+            this.commandDiagnostics.set(textDocument.uri, { version: version, diagnostics: diagnostics });
+            this.validateTextDocument(textDocument);
+        }
+    }
+
+    public async onKubernetesContexts(): Promise<KubernetesContextsResult> {
+        return KubernetsApiService.getContexts(this.configurationService.getCurrentSettings());
+    }
+
+    public async onKubernetesKinds(): Promise<string[]> {
+        const kinds: string[] = [];
+        for (const [kind, servedVersions] of this.getClusterKubernetesApiService()?.getResourceInfo() || []) {
+            if (servedVersions.some((version) => version.verbs.includes('list') && version.verbs.includes('get'))) {
+                kinds.push(kind);
+            }
+        }
+        return kinds.sort();
+    }
+
+    public async onKubernetesObjects(params: KubernetesObjectParams): Promise<KubernetesObjectInfo[]> {
+        const kubernetesApiService = this.getClusterKubernetesApiService();
+        if (!kubernetesApiService) {
+            return [];
+        }
+        //objects of any namespace can be picked, the namespace is shown next to their name
+        const objects = params.namespace
+            ? await kubernetesApiService.listObjects(params.kind, params.namespace)
+            : await kubernetesApiService.listObjectsOfAllNamespaces(params.kind);
+        return objects
+            .map((object) => ({ name: object.name, namespace: object.namespace }))
+            .sort(
+                (object1, object2) =>
+                    (object1.namespace || '').localeCompare(object2.namespace || '') ||
+                    object1.name.localeCompare(object2.name)
+            );
+    }
+
+    //fetch an object of the cluster, the client opens the manifest in a new document
+    public async onKubernetesManifest(params: KubernetesObjectParams): Promise<KubernetesManifestResult> {
+        const kubernetesApiService = this.getClusterKubernetesApiService();
+        const servedVersion = kubernetesApiService
+            ?.getResourceInfo()
+            .get(params.kind)
+            ?.find((version) => version.verbs.includes('get'));
+        if (!kubernetesApiService || !servedVersion || !params.name) {
+            return { success: false, message: `${params.kind} ${params.name} can not be fetched from the cluster` };
+        }
+
+        const object = {
+            apiVersion: servedVersion.groupVersion,
+            kind: params.kind,
+            metadata: { name: params.name, namespace: params.namespace }
+        };
+        try {
+            const manifest = await this.languageService.doGenerateManifest(object, kubernetesApiService);
+            return manifest
+                ? { success: true, message: `Generated manifest of ${params.kind}/${params.name}`, manifest: manifest }
+                : { success: false, message: `${params.kind}/${params.name} does not exist in the cluster` };
+        } catch (error) {
+            const status = KubernetsApiService.getErrorStatus(error);
+            return { success: false, message: `Unable to get the live object: ${status?.message || error}` };
+        }
+    }
+
+    //the cluster of the kubeconfig context, objects of other contexts are only used by the documents pinning them
+    private getClusterKubernetesApiService(): KubernetsApiService | undefined {
+        if (this.kubernetesMode !== KubernetesMode.Online || !this.kubernetesApiService?.isInitialized()) {
+            return undefined;
+        }
+        return this.kubernetesApiService;
+    }
+
+    private getYamlDocumentAtPosition(
+        textDocument: TextDocument,
+        textDocumentPosition: TextDocumentPositionParams
+    ): YamlDocument | undefined {
+        const yamlDocuments = this.languageService.parseYamlDocument(textDocument);
+        const currentOffset = textDocument.offsetAt(textDocumentPosition.position);
+
+        for (const yamlDocument of yamlDocuments) {
+            if (yamlDocument.isOffsetInDocument(currentOffset)) {
+                return yamlDocument;
+            }
+        }
+        return undefined;
+    }
 }